@@ -1,26 +1,69 @@
 import express, { Express } from 'express';
 import { Middleware } from './middleware';
 import { makeApiRoutes } from './routes/api';
+import { makeAdminRoutes } from './routes/admin';
+import { makeOpenAIRoutes } from './routes/openai';
+import { makeMetricsRoutes } from './routes/metrics';
 import { Config } from './config';
-import { ModelConfig } from './data/models';
+import { ModelCatalog } from './data/catalog';
+import { UsageLedger } from './data/usage';
+import { UsageLimiter } from './data/limits';
+import { LruCache, ResponseCache } from './data/cache';
+import { PromptLibrary } from './data/prompts';
+import { OllamaDiscovery } from './data/ollama';
+import { Metrics } from './metrics';
+import { ChatProvider } from './providers';
+import { Recorder } from './recording';
+import { McpManager } from './tools/mcp';
+import { SearchBackend } from './tools/search';
 import OpenAI from 'openai';
 
 export interface AppContext {
   middleware: Middleware;
   config: Config;
-  models: ModelConfig[];
+  catalog: ModelCatalog;
+  /** Models of the local Ollama hosts, listed after the catalog */
+  ollama: OllamaDiscovery;
+  prompts: PromptLibrary;
+  ledger: UsageLedger;
+  limiter: UsageLimiter;
+  cache: ResponseCache;
+  /** Summaries of trimmed history by transcript, kept apart from the response cache */
+  summaries: LruCache<string>;
+  metrics: Metrics;
   openai: OpenAI;
+  mcp: McpManager;
+  /** Backs the web search substitute for Raycast's remote tools, when configured */
+  searchBackend?: SearchBackend;
+  /** Records completions for debugging, when `RECORD_DIR` is set */
+  recorder?: Recorder;
+  /** Serves every upstream request in place of the models' providers, to replay recordings */
+  upstreamOverride?: ChatProvider;
 }
 
 export function makeApp(ctx: AppContext): Express {
   const app = express();
   app.use(express.json({ limit: '100mb' }));
   app.use(ctx.middleware.logger);
+  app.use(ctx.middleware.networkAccess);
 
-  app.use('/api', makeApiRoutes(ctx));
+  const recording = ctx.recorder ? [ctx.recorder.middleware] : [];
+  const recordingErrors = ctx.recorder ? [ctx.recorder.errorMiddleware] : [];
+  app.use('/api', ctx.middleware.clientAuth, ...recording, makeApiRoutes(ctx));
+  app.use(
+    '/v1',
+    ctx.middleware.clientAuth,
+    ...recording,
+    makeOpenAIRoutes(ctx),
+    ctx.middleware.routeNotFound,
+    ...recordingErrors,
+    ctx.middleware.openAIErrorHandler,
+  );
+  app.use('/admin', makeAdminRoutes(ctx));
+  app.use('/metrics', ctx.middleware.metricsAuth, makeMetricsRoutes(ctx));
 
   app.use(ctx.middleware.routeNotFound);
-  app.use(ctx.middleware.errorHandler);
+  app.use(...recordingErrors, ctx.middleware.errorHandler);
 
   return app;
 }
@@ -0,0 +1,908 @@
+import { Request, Response } from 'express';
+import {
+  ChatCompletionChunk,
+  ChatCompletionCreateParamsStreaming,
+  ChatCompletionMessageFunctionToolCall,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+  CompletionUsage,
+} from 'openai/resources';
+import { z, ZodError } from 'zod/v4';
+import { AppContext } from './app';
+import { fitContext, formatTranscript } from './context';
+import { CachedResponse, getCachePolicy, makeCacheKey } from './data/cache';
+import {
+  findModelConfig,
+  getModelType,
+  getOpenAIInstanceForModel,
+  ModelConfig,
+  ModelType,
+} from './data/models';
+import { resolveSystemPrompt } from './data/prompts';
+import { describeLimitViolation, LimitViolation } from './data/limits';
+import { makeUsageRecord } from './data/usage';
+import { HttpError } from './errors';
+import { describeError, formatErrorNotice } from './errors/upstream';
+import { parseToolArguments } from './json';
+import { measureProvider } from './metrics';
+import { isModelAllowed } from './middleware/auth';
+import { recordProvider, recordSink } from './recording';
+import { makeRouterModelConfig, RouteInput, selectRoute } from './router';
+import { makeThinkTagParser, ThinkTagMode, ThinkTagPart } from './think';
+import { getServerToolName, ServerTool } from './tools';
+import { openChatStreamWithFallback, resolveUpstreamTargets, UpstreamTarget } from './upstream';
+import { applySystemPrompt, OllamaChunkResponse } from './util';
+
+export interface CompletionResult {
+  doneReason: OllamaChunkResponse['done_reason'];
+  toolCalls: Record<number, ChatCompletionChunk.Choice.Delta.ToolCall>;
+  usage?: CompletionUsage;
+}
+
+/**
+ * Receives the output of a completion. Each endpoint provides its own sink to shape the
+ * output into the response format its clients expect.
+ */
+export interface CompletionSink {
+  /** Called once before any output, after the upstream has produced its first chunk */
+  start(): void;
+  reasoning(text: string): void;
+  content(text: string): void;
+  /**
+   * Receives each tool call as soon as it is complete, for models with `streamToolCalls`.
+   * Calls passed here are left out of `finish`.
+   */
+  toolCall?(call: ChatCompletionChunk.Choice.Delta.ToolCall): void;
+  /** Keeps idle connections open while the model is thinking */
+  ping(): void;
+  finish(result: CompletionResult): void;
+  /**
+   * Explains a reached limit in place of an answer instead of failing with 429,
+   * for clients like Raycast that do not show error bodies
+   */
+  explainsLimits?: boolean;
+  /**
+   * Adds a notice to the answer when the stream fails partway, and finishes it as usual.
+   * Otherwise the error is thrown for the error handler to end the stream with.
+   */
+  explainsFailures?: boolean;
+}
+
+export interface CompletionRequest {
+  /** The model name the client asked for */
+  requestedModel: string;
+  modelConfig: ModelConfig;
+  allModels: ModelConfig[];
+  messages: ChatCompletionMessageParam[];
+  tools?: ChatCompletionTool[];
+  /** Tools executed by the proxy itself, which the client never sees */
+  serverTools?: ServerTool[];
+  /** Parameters set by the client, which take precedence over the model's defaults */
+  params?: ClientChatParams;
+}
+
+export type ClientChatParams = Omit<
+  Partial<ChatCompletionCreateParamsStreaming>,
+  'model' | 'messages' | 'stream' | 'stream_options' | 'tools'
+>;
+
+const PING_INTERVAL_MS = 10000;
+const MAX_SERVER_TOOL_ROUNDS = 5;
+
+export const writeStreamHeaders = (res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'application/json',
+    'Transfer-Encoding': 'chunked',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+};
+
+/** Rejects models that the authenticated client is not allowed to use */
+export const assertModelAllowed = (req: Request, model: string) => {
+  if (!isModelAllowed(req.authClient, model)) {
+    req.log.warn({ requestId: req.id, model }, 'ModelAccessDenied');
+    throw new HttpError(403, `Model ${model} is not available to this client`);
+  }
+};
+
+/** The configured models followed by the discovered local Ollama models */
+export const getAvailableModels = ({ catalog, ollama }: AppContext): ModelConfig[] => [
+  ...catalog.getModels(),
+  ...ollama.getModels(),
+];
+
+/** The models shown to clients, which include the routers */
+export const getListedModels = (ctx: AppContext): ModelConfig[] => {
+  const models = getAvailableModels(ctx);
+  return [
+    ...models,
+    ...ctx.catalog.getRouters().map((router) => makeRouterModelConfig(router, models)),
+  ];
+};
+
+/**
+ * Looks up a model by name among the configured and local Ollama models, and checks
+ * that it can serve the kind of request being made. A router is resolved to the model
+ * its rules pick for `route`.
+ */
+export const resolveModel = async (
+  ctx: AppContext,
+  req: Request,
+  requestedModel: string,
+  type: ModelType = 'chat',
+  route: RouteInput = { messages: [] },
+): Promise<{ modelConfig: ModelConfig; allModels: ModelConfig[] }> => {
+  assertModelAllowed(req, requestedModel);
+
+  const allModels = getAvailableModels(ctx);
+
+  let modelName = requestedModel;
+  const router = ctx.catalog.getRouters().find((router) => router.name === requestedModel);
+  if (router) {
+    const { model, rule } = selectRoute(router, route);
+    req.log.info({ router: router.name, model, rule: rule ?? 'default' }, 'RouterModelSelected');
+    assertModelAllowed(req, model);
+    modelName = model;
+  }
+
+  const modelConfig = findModelConfig(allModels, modelName);
+
+  if (!modelConfig) {
+    throw new HttpError(400, `Model ${modelName} not found`);
+  }
+
+  if (getModelType(modelConfig) !== type) {
+    const article = type === 'embedding' ? 'an' : 'a';
+    throw new HttpError(400, `Model ${modelName} is not ${article} ${type} model`);
+  }
+
+  return { modelConfig, allModels };
+};
+
+// Raycast does not send the user's locale, but other clients may through Accept-Language
+const getRequestLocale = (req: Request, fallback: string): string => {
+  const [preferred] = req.acceptsLanguages();
+  if (!preferred || preferred === '*') return fallback;
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(preferred).length ? preferred : fallback;
+  } catch {
+    // Malformed tags such as `en_US` are rejected instead of being ignored
+    return fallback;
+  }
+};
+
+/**
+ * Adds the model's configured system prompt, if it has one, to the client's messages.
+ */
+export const applyModelSystemPrompt = (
+  { config, prompts }: AppContext,
+  req: Request,
+  requestedModel: string,
+  modelConfig: ModelConfig,
+  messages: ChatCompletionMessageParam[],
+): ChatCompletionMessageParam[] => {
+  const prompt = resolveSystemPrompt(
+    prompts,
+    modelConfig,
+    {
+      model: requestedModel,
+      locale: () => getRequestLocale(req, config.locale),
+      timeZone: config.timeZone,
+    },
+    req.log,
+  );
+  if (!prompt) return messages;
+  return applySystemPrompt(messages, prompt, modelConfig.systemPromptMode ?? 'prepend');
+};
+
+const addUsage = (total: CompletionUsage | undefined, usage: CompletionUsage): CompletionUsage =>
+  total
+    ? {
+        ...usage,
+        prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+        completion_tokens: total.completion_tokens + usage.completion_tokens,
+        total_tokens: total.total_tokens + usage.total_tokens,
+      }
+    : usage;
+
+interface StreamOutput {
+  finishReason: OllamaChunkResponse['done_reason'];
+  toolCalls: Record<number, ChatCompletionChunk.Choice.Delta.ToolCall>;
+  usage?: CompletionUsage;
+}
+
+type ReasoningDelta = ChatCompletionChunk.Choice.Delta & {
+  reasoning_content?: string | null;
+  reasoning?: string | null;
+  reasoning_details?: { type: string; text?: string; summary?: string }[] | null;
+};
+
+/**
+ * Providers stream reasoning under different names: `reasoning_content` (DeepSeek, vLLM and
+ * the Anthropic adapter), and `reasoning` plus `reasoning_details` (OpenRouter). OpenRouter
+ * sends the same text in both of its fields, so only one of them is used.
+ */
+const getReasoningText = (delta: ReasoningDelta): string | undefined => {
+  if (delta.reasoning_content) return delta.reasoning_content;
+  if (delta.reasoning) return delta.reasoning;
+
+  const text = (delta.reasoning_details ?? [])
+    .map((detail) =>
+      detail.type === 'reasoning.summary' ? (detail.summary ?? '') : (detail.text ?? ''),
+    )
+    .join('');
+  return text || undefined;
+};
+
+interface ReadStreamOptions {
+  thinkTags?: ThinkTagMode;
+  onToolCall?: (call: ChatCompletionChunk.Choice.Delta.ToolCall) => void;
+}
+
+/**
+ * Reads an upstream stream to the end, passing text through as it arrives and
+ * accumulating tool call fragments by index. A tool call counts as complete once the
+ * next one starts or the stream ends.
+ */
+const readStream = async (
+  stream: AsyncIterable<ChatCompletionChunk>,
+  writeReasoning: (text: string) => void,
+  writeContent: (text: string) => void,
+  log: Request['log'],
+  { thinkTags = 'auto', onToolCall }: ReadStreamOptions = {},
+): Promise<StreamOutput> => {
+  const thinkTagParser = makeThinkTagParser(thinkTags);
+  const writeParts = (parts: ThinkTagPart[]) => {
+    for (const part of parts) {
+      if (part.type === 'reasoning') writeReasoning(part.text);
+      else writeContent(part.text);
+    }
+  };
+  const finalToolCalls: Record<number, ChatCompletionChunk.Choice.Delta.ToolCall> = {};
+  const completedToolCalls = new Set<number>();
+  const completeToolCalls = (except?: number) => {
+    for (const [key, call] of Object.entries(finalToolCalls)) {
+      const index = Number(key);
+      if (index === except || completedToolCalls.has(index)) continue;
+      completedToolCalls.add(index);
+      onToolCall?.(call);
+    }
+  };
+  let finish_reason: OllamaChunkResponse['done_reason'] = undefined;
+  let usage: CompletionUsage | undefined = undefined;
+
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta;
+
+    if (chunk.usage) {
+      usage = chunk.usage;
+      log.info({ usage: chunk.usage }, 'CompletionUsage');
+      const reasoningTokens = chunk.usage.completion_tokens_details?.reasoning_tokens;
+      if (reasoningTokens) {
+        log.info(
+          { reasoningTokens, completionTokens: chunk.usage.completion_tokens },
+          'ReasoningUsage',
+        );
+      }
+    }
+
+    if (!delta) continue;
+
+    const reasoning_content = getReasoningText(delta);
+    const content = delta?.content;
+
+    const toolCalls = delta?.tool_calls;
+
+    if (reasoning_content) {
+      writeReasoning(reasoning_content);
+    }
+
+    // Models served by Ollama or vLLM may put their reasoning in the content
+    if (content) {
+      writeParts(thinkTagParser.push(content));
+    }
+
+    if (toolCalls) {
+      for (const toolCall of toolCalls) {
+        const { index } = toolCall;
+
+        if (!finalToolCalls[index]) {
+          completeToolCalls(index);
+          finalToolCalls[index] = {
+            index: toolCall.index,
+            id: toolCall.id,
+            type: toolCall.type,
+            function: {
+              name: toolCall.function?.name || '',
+              arguments: toolCall.function?.arguments || '',
+            },
+          };
+        } else {
+          if (finalToolCalls[index]?.function) {
+            finalToolCalls[index].function.arguments += toolCall.function?.arguments || '';
+          }
+        }
+      }
+    }
+
+    const reason = chunk.choices[0]?.finish_reason;
+    if (reason) {
+      if (reason === 'stop' || reason === 'tool_calls') {
+        finish_reason = reason;
+      } else {
+        finish_reason = 'stop';
+      }
+    }
+  }
+
+  writeParts(thinkTagParser.flush());
+  completeToolCalls();
+  return { finishReason: finish_reason, toolCalls: finalToolCalls, usage };
+};
+
+/**
+ * Repairs the arguments of a tool call meant for the client. A call whose arguments
+ * cannot be recovered is dropped, and the user is told about it so the action does not
+ * silently disappear.
+ */
+const finalizeClientToolCall = (
+  call: ChatCompletionChunk.Choice.Delta.ToolCall,
+  writeContent: (text: string) => void,
+  log: Request['log'],
+): ChatCompletionChunk.Choice.Delta.ToolCall | undefined => {
+  const name = call.function?.name;
+  if (!name) return undefined;
+
+  const raw = call.function?.arguments ?? '';
+  const args = parseToolArguments(raw);
+  if (!args) {
+    log.warn({ tool: name, arguments: raw.slice(0, 2000) }, 'ToolCallArgumentsInvalid');
+    writeContent(
+      `\n\n> ⚠️ The model tried to use \`${name}\`, but its arguments could not be read, ` +
+        'so the tool was not called.\n',
+    );
+    return undefined;
+  }
+
+  const repaired = JSON.stringify(args);
+  if (raw.trim() && repaired !== raw) {
+    try {
+      JSON.parse(raw);
+    } catch {
+      log.warn({ tool: name, arguments: raw.slice(0, 2000) }, 'ToolCallArgumentsRepaired');
+    }
+  }
+  return { ...call, function: { name, arguments: repaired } };
+};
+
+/**
+ * Runs one server tool call. Failures are returned to the model as the tool result,
+ * so it can correct its arguments or answer without the tool.
+ */
+const executeServerTool = async (
+  tool: ServerTool,
+  { function: fn }: ChatCompletionMessageFunctionToolCall,
+  signal: AbortSignal,
+  log: Request['log'],
+): Promise<string> => {
+  const startedAt = Date.now();
+  try {
+    const args = parseToolArguments(fn.arguments);
+    if (!args) {
+      throw new Error('The arguments are not a valid JSON object');
+    }
+    const result = await tool.execute(args, { signal, log });
+    log.info({ tool: fn.name, durationMs: Date.now() - startedAt }, 'ServerToolCall');
+    return result;
+  } catch (error) {
+    log.warn({ tool: fn.name, args: fn.arguments, err: error }, 'ServerToolFailed');
+    const message =
+      error instanceof ZodError
+        ? z.prettifyError(error)
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    return `Error: ${message}`;
+  }
+};
+
+const SUMMARY_PROMPT =
+  'Summarize the conversation below so that it can replace it as context for the rest of ' +
+  'the conversation. Keep facts, decisions, open questions, names, numbers and code ' +
+  'identifiers. Reply with only the summary.';
+const SUMMARY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** Records usage in the ledger and counts it towards the usage limits */
+const recordUsage = (
+  { ledger, limiter }: AppContext,
+  req: Request,
+  requestedModel: string,
+  modelConfig: ModelConfig,
+  config: ModelConfig,
+  usage: CompletionUsage,
+  latencyMs: number,
+) => {
+  const record = makeUsageRecord(
+    modelConfig.name,
+    config,
+    usage,
+    latencyMs,
+    req.id as string,
+    req.authClient?.name,
+    requestedModel,
+  );
+  ledger.record(record);
+  limiter.record(record);
+};
+
+/**
+ * The model's upstreams followed by its fallbacks. Requests go to the replayed upstream
+ * instead when one is set. They are measured, and recorded when the request is being recorded.
+ */
+const getUpstreamTargets = (
+  { config, openai, metrics, upstreamOverride }: AppContext,
+  req: Request,
+  modelConfig: ModelConfig,
+  allModels: ModelConfig[],
+): UpstreamTarget[] =>
+  resolveUpstreamTargets(
+    modelConfig,
+    allModels,
+    { openai, anthropicApiKey: config.anthropicApiKey },
+    req.log,
+  ).map((target) => {
+    const provider = measureProvider(
+      metrics,
+      { model: target.config.name, provider: target.provider.name, upstream: target.config.id },
+      upstreamOverride ?? target.provider,
+    );
+    return {
+      ...target,
+      provider: req.recording ? recordProvider(req.recording, provider) : provider,
+    };
+  });
+
+/** Checks the global, client and model limits before anything is sent upstream */
+const checkUsageLimits = (
+  { limiter }: AppContext,
+  req: Request,
+  modelConfig: ModelConfig,
+): LimitViolation | undefined => {
+  const violation = limiter.check({
+    model: modelConfig.name,
+    modelLimits: modelConfig.limits,
+    client: req.authClient?.name,
+    clientLimits: req.authClient?.limits,
+  });
+  if (violation) {
+    req.log.warn({ ...violation, requestId: req.id }, 'UsageLimitExceeded');
+  }
+  return violation;
+};
+
+/** Fails the request with 429, telling the client when the limit resets */
+const makeLimitError = (violation: LimitViolation): HttpError => {
+  const retryAfter = Math.max(1, Math.ceil((violation.resetsAt.getTime() - Date.now()) / 1000));
+  return new HttpError(429, describeLimitViolation(violation), {
+    'Retry-After': String(retryAfter),
+  });
+};
+
+/**
+ * Summarizes the oldest part of a conversation with the model's `summaryModel`, or with
+ * the model itself. Summaries are cached, since the same history is sent again on the
+ * next turn.
+ */
+const summarizeHistory = async (
+  ctx: AppContext,
+  req: Request,
+  modelConfig: ModelConfig,
+  allModels: ModelConfig[],
+  history: ChatCompletionMessageParam[],
+  signal: AbortSignal,
+): Promise<string> => {
+  const { summaries } = ctx;
+  const summaryModel = modelConfig.context?.summaryModel ?? modelConfig.name;
+  const summaryConfig = findModelConfig(allModels, summaryModel);
+  if (!summaryConfig) {
+    throw new Error(`Summary model ${summaryModel} not found`);
+  }
+
+  const transcript = formatTranscript(history);
+  const cacheKey = makeCacheKey({ summary: summaryConfig.id, transcript });
+  const cached = summaries.get(cacheKey);
+  if (cached) {
+    req.log.info({ cacheKey }, 'ContextSummaryCacheHit');
+    return cached;
+  }
+
+  const startedAt = Date.now();
+  const targets = getUpstreamTargets(ctx, req, summaryConfig, allModels);
+  const { stream, target } = await openChatStreamWithFallback(
+    targets,
+    (config) => ({
+      ...config.extra,
+      model: config.id,
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: transcript },
+      ],
+      stream: true,
+      stream_options: { include_usage: true },
+    }),
+    signal,
+    req.log,
+  );
+
+  let summary = '';
+  const { usage } = await readStream(
+    stream,
+    () => {},
+    (text) => {
+      summary += text;
+    },
+    req.log,
+  );
+  if (usage) {
+    recordUsage(
+      ctx,
+      req,
+      summaryModel,
+      summaryConfig,
+      target.config,
+      usage,
+      Date.now() - startedAt,
+    );
+  }
+  if (!summary.trim()) {
+    throw new Error('Summary model returned an empty summary');
+  }
+
+  summaries.set(cacheKey, summary, SUMMARY_CACHE_TTL_MS);
+  return summary;
+};
+
+/**
+ * Runs a completion against the model's upstreams and feeds the output to the sink.
+ * Handles the response cache, retries and fallbacks, reasoning output, tool call
+ * accumulation, usage recording and client cancellation.
+ *
+ * Calls to server tools are executed here and their results sent back to the model,
+ * until it answers with text or calls a tool owned by the client.
+ */
+export const runCompletion = async (
+  ctx: AppContext,
+  req: Request,
+  res: Response,
+  {
+    requestedModel,
+    modelConfig,
+    allModels,
+    messages,
+    tools,
+    serverTools,
+    params,
+  }: CompletionRequest,
+  clientSink: CompletionSink,
+): Promise<void> => {
+  const { cache, metrics } = ctx;
+  const sink = req.recording ? recordSink(req.recording, clientSink) : clientSink;
+  const startedAt = Date.now();
+  metrics.request(requestedModel);
+
+  // 主模型及其 fallback 链，每个目标使用各自的 OpenAI 实例
+  const targets = getUpstreamTargets(ctx, req, modelConfig, allModels);
+  if (req.recording) {
+    req.recording.model = {
+      requested: requestedModel,
+      configs: [...new Set(targets.map((target) => target.config))],
+    };
+  }
+
+  let pingInterval: NodeJS.Timeout | undefined = undefined;
+  const abortController = new AbortController();
+
+  const cleanup = () => {
+    if (!abortController.signal.aborted) {
+      abortController.abort();
+    }
+    clearInterval(pingInterval);
+    req.log.info('ConnectionCleanup');
+  };
+
+  // Abort retries and the upstream request as soon as the client goes away
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      metrics.cancelled(requestedModel);
+      req.log.info('ClientCancelled');
+    }
+    cleanup();
+  });
+
+  const serverToolsByName = new Map(serverTools?.map((tool) => [getServerToolName(tool), tool]));
+  const allTools = [...(tools ?? []), ...(serverTools ?? []).map((tool) => tool.definition)];
+  // Fitted to the context window once the cache has been checked, then grows with the
+  // assistant's server tool calls and their results on each round
+  let conversation = messages;
+  let toolChoice: ClientChatParams['tool_choice'] = undefined;
+
+  const buildChatConfig = (config: ModelConfig): ChatCompletionCreateParamsStreaming => ({
+    ...config.extra,
+    model: config.id,
+    messages: [...conversation],
+    stream: true,
+    stream_options: { include_usage: true },
+    temperature: config.temperature,
+    top_p: config.topP,
+    max_completion_tokens: config.max_tokens,
+    ...params,
+    ...(allTools.length > 0 && { tools: allTools }),
+    ...(toolChoice && { tool_choice: toolChoice }),
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { messages: _, ...configWithoutMessages } = buildChatConfig(modelConfig);
+  req.log.info({ configWithoutMessages }, 'ChatCompletionRequest');
+
+  const cachePolicy = getCachePolicy(modelConfig, buildChatConfig(modelConfig));
+  const cacheKey = cachePolicy
+    ? makeCacheKey({ baseUrl: modelConfig.baseUrl, ...buildChatConfig(modelConfig) })
+    : undefined;
+  const cached = cacheKey ? cache.get(cacheKey) : undefined;
+
+  if (cached) {
+    req.log.info({ cacheKey }, 'ResponseCacheHit');
+    if (req.recording) req.recording.cacheHit = true;
+    sink.start();
+    for (const part of cached.parts) {
+      if (part.type === 'reasoning') {
+        sink.reasoning(part.text);
+      } else {
+        sink.content(part.text);
+      }
+    }
+    sink.finish({ doneReason: cached.doneReason, toolCalls: cached.toolCalls });
+    return;
+  }
+
+  // Cached answers are neither blocked nor counted by the limits
+  const violation = checkUsageLimits(ctx, req, modelConfig);
+  if (violation) {
+    if (!sink.explainsLimits) {
+      throw makeLimitError(violation);
+    }
+    sink.start();
+    sink.content(describeLimitViolation(violation));
+    sink.finish({ doneReason: 'stop', toolCalls: {} });
+    return;
+  }
+
+  // Copied, since the client's messages may come back unchanged
+  conversation = [
+    ...(await fitContext(messages, modelConfig, {
+      tools: allTools,
+      summarize: (history) =>
+        summarizeHistory(ctx, req, modelConfig, allModels, history, abortController.signal),
+      logger: req.log,
+    })),
+  ];
+
+  let started = false;
+  let totalUsage: CompletionUsage | undefined = undefined;
+
+  metrics.streamStarted(requestedModel);
+  try {
+    const parts: CachedResponse['parts'] = [];
+    let usedServerTools = false;
+    // What the model wrote in the current round, which goes back to it with its tool calls
+    let roundContent = '';
+
+    const writeReasoning = (text: string) => {
+      if (cacheKey) parts.push({ type: 'reasoning', text });
+      sink.reasoning(text);
+    };
+
+    const writeContent = (text: string) => {
+      if (cacheKey) parts.push({ type: 'content', text });
+      roundContent += text;
+      sink.content(text);
+    };
+
+    for (let round = 0; ; round++) {
+      roundContent = '';
+      // Retries and fallbacks only happen before anything is written to the response
+      const { stream, target } = await openChatStreamWithFallback(
+        targets,
+        buildChatConfig,
+        abortController.signal,
+        req.log,
+      );
+
+      if (round === 0) {
+        sink.start();
+        started = true;
+
+        pingInterval = setInterval(() => {
+          sink.ping();
+          req.log.info('ConnectionPing');
+        }, PING_INTERVAL_MS);
+      }
+
+      // Client tool calls that were already handed to the sink while streaming
+      const streamedToolCalls: ChatCompletionChunk.Choice.Delta.ToolCall[] = [];
+      const handledToolCalls = new Set<number>();
+      const streamToolCall =
+        modelConfig.streamToolCalls && sink.toolCall
+          ? (call: ChatCompletionChunk.Choice.Delta.ToolCall) => {
+              if (serverToolsByName.has(call.function?.name ?? '')) return;
+              handledToolCalls.add(call.index);
+              const finalized = finalizeClientToolCall(call, writeContent, req.log);
+              if (finalized) {
+                streamedToolCalls.push(finalized);
+                sink.toolCall?.(finalized);
+              }
+            }
+          : undefined;
+
+      const { finishReason, toolCalls, usage } = await readStream(
+        stream,
+        writeReasoning,
+        writeContent,
+        req.log,
+        { thinkTags: modelConfig.thinkTags, onToolCall: streamToolCall },
+      );
+
+      if (usage) {
+        totalUsage = addUsage(totalUsage, usage);
+        recordUsage(
+          ctx,
+          req,
+          requestedModel,
+          modelConfig,
+          target.config,
+          usage,
+          Date.now() - startedAt,
+        );
+      }
+
+      const calls = Object.values(toolCalls).flatMap(
+        (call, index): ChatCompletionMessageFunctionToolCall[] =>
+          call.function?.name
+            ? [
+                {
+                  id: call.id || `call_${round}_${index}`,
+                  type: 'function',
+                  function: { name: call.function.name, arguments: call.function.arguments ?? '' },
+                },
+              ]
+            : [],
+      );
+      const serverCalls = calls.filter((call) => serverToolsByName.has(call.function.name));
+
+      if (finishReason === 'tool_calls' && serverCalls.length > 0) {
+        if (serverCalls.length === calls.length) {
+          usedServerTools = true;
+          conversation.push({
+            role: 'assistant',
+            content: roundContent || null,
+            tool_calls: serverCalls,
+          });
+          for (const call of serverCalls) {
+            const tool = serverToolsByName.get(call.function.name)!;
+            const result = await executeServerTool(tool, call, abortController.signal, req.log);
+            conversation.push({ role: 'tool', tool_call_id: call.id, content: result });
+          }
+
+          // Make the model answer with what it has once the round limit is reached
+          if (round + 1 >= MAX_SERVER_TOOL_ROUNDS) {
+            req.log.warn({ rounds: round + 1 }, 'ServerToolRoundLimit');
+            toolChoice = 'none';
+          }
+          continue;
+        }
+
+        // The client cannot run server tools, so only its own calls are handed back
+        req.log.warn(
+          { tools: serverCalls.map((call) => call.function.name) },
+          'ServerToolCallsDropped',
+        );
+      }
+
+      const remainingToolCalls = Object.values(toolCalls).flatMap((call) => {
+        if (handledToolCalls.has(call.index)) return [];
+        if (serverToolsByName.has(call.function?.name ?? '')) return [];
+        const finalized = finalizeClientToolCall(call, writeContent, req.log);
+        return finalized ? [finalized] : [];
+      });
+      const indexToolCalls = (calls: ChatCompletionChunk.Choice.Delta.ToolCall[]) =>
+        Object.fromEntries(calls.map((call, index) => [index, { ...call, index }]));
+      // When every call was dropped, the notice is the answer and no call is coming
+      const doneReason =
+        finishReason === 'tool_calls' && streamedToolCalls.length + remainingToolCalls.length === 0
+          ? 'stop'
+          : finishReason;
+
+      // Only complete responses are cached; a cancelled stream never gets here.
+      // Answers built from server tool results depend on more than the request.
+      if (cacheKey && cachePolicy && finishReason && !usedServerTools) {
+        const response: CachedResponse = {
+          parts,
+          doneReason,
+          toolCalls: indexToolCalls([...streamedToolCalls, ...remainingToolCalls]),
+        };
+        cache.set(cacheKey, response, cachePolicy.ttlSeconds * 1000);
+      }
+
+      sink.finish({
+        doneReason,
+        toolCalls: indexToolCalls(remainingToolCalls),
+        usage: totalUsage,
+      });
+      return;
+    }
+  } catch (error) {
+    // Before anything is written, the error handler answers with a status instead
+    if (!started || abortController.signal.aborted || !sink.explainsFailures) {
+      throw error;
+    }
+    req.log.error({ err: error }, 'CompletionStreamFailed');
+    sink.content(
+      formatErrorNotice(`The response from ${requestedModel} was cut off. ${describeError(error)}`),
+    );
+    sink.finish({ doneReason: 'stop', toolCalls: {}, usage: totalUsage });
+  } finally {
+    metrics.streamEnded(requestedModel);
+    cleanup();
+  }
+};
+
+/**
+ * Embeds each input with the model's OpenAI-compatible `/embeddings` endpoint and
+ * records the usage. Vectors are returned in input order.
+ */
+export const runEmbeddings = async (
+  ctx: AppContext,
+  req: Request,
+  requestedModel: string,
+  modelConfig: ModelConfig,
+  input: string[],
+  dimensions?: number,
+): Promise<{ embeddings: number[][]; promptTokens: number }> => {
+  if (modelConfig.provider && modelConfig.provider !== 'openai') {
+    throw new HttpError(400, `Provider ${modelConfig.provider} does not support embeddings`);
+  }
+
+  ctx.metrics.request(requestedModel);
+  const violation = checkUsageLimits(ctx, req, modelConfig);
+  if (violation) {
+    throw makeLimitError(violation);
+  }
+
+  const startedAt = Date.now();
+  const client = getOpenAIInstanceForModel(modelConfig, ctx.openai);
+  const response = await client.embeddings.create({
+    ...modelConfig.extra,
+    model: modelConfig.id,
+    input,
+    dimensions: dimensions ?? modelConfig.dimensions,
+    encoding_format: 'float',
+  });
+
+  const { prompt_tokens, total_tokens } = response.usage ?? { prompt_tokens: 0, total_tokens: 0 };
+  req.log.info({ usage: response.usage, count: input.length }, 'EmbeddingUsage');
+  recordUsage(
+    ctx,
+    req,
+    requestedModel,
+    modelConfig,
+    modelConfig,
+    { prompt_tokens, completion_tokens: 0, total_tokens },
+    Date.now() - startedAt,
+  );
+
+  const embeddings = [...response.data]
+    .sort((a, b) => a.index - b.index)
+    .map((item) => item.embedding);
+  return { embeddings, promptTokens: prompt_tokens };
+};
@@ -1,11 +1,74 @@
 import * as dotenv from 'dotenv';
 import { z } from 'zod/v4';
 
+const isValidLocale = (locale: string) => {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 export const Config = z.object({
   port: z.coerce.number().int().positive().default(3000),
   apiKey: z.string().trim().min(1, 'API key is required'),
   baseUrl: z.url().default('https://openrouter.ai/api/v1'),
   ollamaBaseUrl: z.string().url().default('http://localhost:11434/v1'),
+  anthropicApiKey: z.string().trim().min(1).optional(),
+  modelsPath: z.string().optional(),
+  usagePath: z.string().optional(),
+  importCachePath: z.string().optional(),
+  mcpPath: z.string().optional(),
+  promptsPath: z.string().optional(),
+  authPath: z.string().optional(),
+  ollamaPath: z.string().optional(),
+  locale: z
+    .string()
+    .refine(isValidLocale, 'Invalid locale')
+    .default(() => Intl.DateTimeFormat().resolvedOptions().locale),
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, 'Invalid time zone')
+    .default(() => Intl.DateTimeFormat().resolvedOptions().timeZone),
+  cacheMaxEntries: z.coerce.number().int().min(0).default(1000),
+  cacheMaxBytes: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(50 * 1024 * 1024),
+  adminToken: z.string().trim().min(1).optional(),
+  /** Lets a scraper read `/metrics` without the admin token */
+  metricsToken: z.string().trim().min(1).optional(),
+  searxngUrl: z.url().optional(),
+  /** Limits for all requests together; see `UsageLimits` */
+  limitRequestsPerMinute: z.coerce.number().int().min(1).optional(),
+  limitTokensPerDay: z.coerce.number().int().min(1).optional(),
+  limitCostPerDay: z.coerce.number().positive().optional(),
+  limitCostPerMonth: z.coerce.number().positive().optional(),
+  /** Where completions are recorded for debugging; recording is off if unset */
+  recordDir: z.string().optional(),
+  recordImages: z.stringbool().default(false),
+  /** A regular expression for more secrets to redact from recordings */
+  recordRedact: z
+    .string()
+    .refine((pattern) => {
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'Invalid regular expression')
+    .optional(),
 });
 export type Config = z.infer<typeof Config>;
 
@@ -16,5 +79,27 @@ export const getConfig = (): Config => {
     apiKey: process.env.API_KEY,
     baseUrl: process.env.BASE_URL,
     ollamaBaseUrl: process.env.OLLAMA_BASE_URL,
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY || undefined,
+    modelsPath: process.env.MODELS_PATH,
+    usagePath: process.env.USAGE_PATH,
+    importCachePath: process.env.IMPORT_CACHE_PATH,
+    mcpPath: process.env.MCP_PATH,
+    promptsPath: process.env.PROMPTS_PATH,
+    authPath: process.env.AUTH_PATH,
+    ollamaPath: process.env.OLLAMA_PATH,
+    locale: process.env.LOCALE || undefined,
+    timeZone: process.env.TZ || undefined,
+    cacheMaxEntries: process.env.CACHE_MAX_ENTRIES,
+    cacheMaxBytes: process.env.CACHE_MAX_BYTES,
+    adminToken: process.env.ADMIN_TOKEN || undefined,
+    metricsToken: process.env.METRICS_TOKEN || undefined,
+    searxngUrl: process.env.SEARXNG_URL || undefined,
+    limitRequestsPerMinute: process.env.LIMIT_REQUESTS_PER_MINUTE || undefined,
+    limitTokensPerDay: process.env.LIMIT_TOKENS_PER_DAY || undefined,
+    limitCostPerDay: process.env.LIMIT_COST_PER_DAY || undefined,
+    limitCostPerMonth: process.env.LIMIT_COST_PER_MONTH || undefined,
+    recordDir: process.env.RECORD_DIR || undefined,
+    recordImages: process.env.RECORD_IMAGES || undefined,
+    recordRedact: process.env.RECORD_REDACT || undefined,
   });
 };
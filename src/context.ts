@@ -0,0 +1,255 @@
+import { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources';
+import { Logger } from 'pino';
+import { ModelConfig } from './data/models';
+
+// Without the model's tokenizer, ~4 characters per token is a close enough estimate
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators that every message adds
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Providers bill images by size; this is a typical high-detail image
+const IMAGE_TOKENS = 1000;
+const DEFAULT_RESERVE_TOKENS = 4096;
+// At most this share of the window is kept free, so small models still have room for a prompt
+const MAX_RESERVE_SHARE = 0.25;
+
+// Models whose reserve was capped; the warning is logged once per model, not per request
+const cappedModels = new Set<string>();
+
+export interface FitContextOptions {
+  tools?: ChatCompletionTool[];
+  /** Writes a summary of the given messages, for the `summarize` strategy */
+  summarize?: (messages: ChatCompletionMessageParam[]) => Promise<string>;
+  logger: Logger;
+}
+
+export const estimateTextTokens = (text: string): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+type ContentPart = Exclude<
+  ChatCompletionMessageParam['content'],
+  string | null | undefined
+>[number];
+
+const getPartText = (part: ContentPart): string | undefined =>
+  'text' in part ? part.text : 'refusal' in part ? part.refusal : undefined;
+
+export const getMessageText = (msg: ChatCompletionMessageParam): string => {
+  if (typeof msg.content === 'string') return msg.content;
+  return (msg.content ?? []).map((part) => getPartText(part) ?? '').join('');
+};
+
+export const estimateMessageTokens = (msg: ChatCompletionMessageParam): number => {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+  if (typeof msg.content === 'string') {
+    tokens += estimateTextTokens(msg.content);
+  } else if (msg.content) {
+    for (const part of msg.content) {
+      const text = getPartText(part);
+      tokens += text === undefined ? IMAGE_TOKENS : estimateTextTokens(text);
+    }
+  }
+
+  if (msg.role === 'assistant') {
+    for (const call of msg.tool_calls ?? []) {
+      if (call.type === 'function') {
+        tokens += estimateTextTokens(call.function.name + call.function.arguments);
+      }
+    }
+  }
+
+  return tokens;
+};
+
+/** Estimates the prompt size of a request, including the tool definitions */
+export const estimateTokens = (
+  messages: ChatCompletionMessageParam[],
+  tools?: ChatCompletionTool[],
+): number =>
+  messages.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0) +
+  (tools?.length ? estimateTextTokens(JSON.stringify(tools)) : 0);
+
+const isSystemMessage = (msg: ChatCompletionMessageParam) =>
+  msg.role === 'system' || msg.role === 'developer';
+
+/**
+ * Groups the non-system messages into turns, each starting at a user message. An assistant
+ * message with tool calls and the tool results that answer it always share a turn.
+ * Returns the message indexes of each turn.
+ */
+const splitTurns = (messages: ChatCompletionMessageParam[]): number[][] => {
+  const turns: number[][] = [];
+  messages.forEach((msg, index) => {
+    if (isSystemMessage(msg)) return;
+    if (msg.role === 'user' || turns.length === 0) {
+      turns.push([]);
+    }
+    turns[turns.length - 1].push(index);
+  });
+  return turns;
+};
+
+/**
+ * Removes the oldest turns until the messages fit. System messages and the latest turn
+ * are always kept.
+ */
+const dropOldestTurns = (
+  messages: ChatCompletionMessageParam[],
+  budget: number,
+  toolTokens: number,
+): { kept: ChatCompletionMessageParam[]; dropped: ChatCompletionMessageParam[] } => {
+  const turns = splitTurns(messages);
+  let total = estimateTokens(messages) + toolTokens;
+  const droppedIndexes = new Set<number>();
+
+  for (const turn of turns.slice(0, -1)) {
+    if (total <= budget) break;
+    for (const index of turn) {
+      droppedIndexes.add(index);
+      total -= estimateMessageTokens(messages[index]);
+    }
+  }
+
+  return {
+    kept: messages.filter((_, index) => !droppedIndexes.has(index)),
+    dropped: messages.filter((_, index) => droppedIndexes.has(index)),
+  };
+};
+
+const truncateText = (text: string, maxChars: number): string => {
+  const head = Math.floor(maxChars * 0.75);
+  const tail = maxChars - head;
+  const omitted = text.length - head - tail;
+  return `${text.slice(0, head)}\n\n[... ${omitted} characters omitted ...]\n\n${text.slice(-tail)}`;
+};
+
+/**
+ * Shortens tool results longer than the limit, oldest first, until the messages fit.
+ * The start and end of each result are kept.
+ */
+const truncateToolResults = (
+  messages: ChatCompletionMessageParam[],
+  budget: number,
+  toolTokens: number,
+  maxToolResultTokens: number,
+): { messages: ChatCompletionMessageParam[]; truncated: number } => {
+  const maxChars = maxToolResultTokens * CHARS_PER_TOKEN;
+  let total = estimateTokens(messages) + toolTokens;
+  let truncated = 0;
+
+  const result = messages.map((msg) => {
+    if (total <= budget || msg.role !== 'tool') return msg;
+    const text = getMessageText(msg);
+    if (text.length <= maxChars) return msg;
+
+    const shortened: ChatCompletionMessageParam = {
+      ...msg,
+      content: truncateText(text, maxChars),
+    };
+    total -= estimateMessageTokens(msg) - estimateMessageTokens(shortened);
+    truncated++;
+    return shortened;
+  });
+
+  return { messages: result, truncated };
+};
+
+/**
+ * Shortens the conversation to fit the model's context window according to its context
+ * policy. Models without a `context` policy are sent the whole history. The prompt size
+ * is estimated, so the window is filled conservatively.
+ */
+export const fitContext = async (
+  messages: ChatCompletionMessageParam[],
+  config: ModelConfig,
+  { tools, summarize, logger }: FitContextOptions,
+): Promise<ChatCompletionMessageParam[]> => {
+  const policy = config.context;
+  if (!policy?.enabled) return messages;
+
+  const requestedReserve = policy.reserveTokens ?? config.max_tokens ?? DEFAULT_RESERVE_TOKENS;
+  const reserve = Math.min(requestedReserve, Math.floor(config.contextLength * MAX_RESERVE_SHARE));
+  if (reserve < requestedReserve && !cappedModels.has(config.name)) {
+    cappedModels.add(config.name);
+    logger.warn(
+      { model: config.name, contextLength: config.contextLength, requestedReserve, reserve },
+      'ContextReserveCapped',
+    );
+  }
+  const budget = config.contextLength - reserve;
+  const toolTokens = tools?.length ? estimateTokens([], tools) : 0;
+  const estimated = estimateTokens(messages) + toolTokens;
+
+  if (estimated <= budget) return messages;
+  if (budget <= 0) {
+    logger.warn({ contextLength: config.contextLength, reserve }, 'ContextBudgetInvalid');
+    return messages;
+  }
+
+  let current = messages;
+  let truncated = 0;
+  if (policy.strategy !== 'drop_oldest') {
+    ({ messages: current, truncated } = truncateToolResults(
+      current,
+      budget,
+      toolTokens,
+      policy.maxToolResultTokens,
+    ));
+  }
+
+  let { kept, dropped } = dropOldestTurns(current, budget, toolTokens);
+  let summarized = false;
+
+  if (policy.strategy === 'summarize' && dropped.length > 0 && summarize) {
+    try {
+      const summary = await summarize(dropped);
+      const withSummary: ChatCompletionMessageParam[] = [
+        ...kept.filter(isSystemMessage),
+        { role: 'system', content: `Summary of the earlier conversation:\n\n${summary}` },
+        ...kept.filter((msg) => !isSystemMessage(msg)),
+      ];
+      // The summary takes up room too, which may cost another turn
+      const second = dropOldestTurns(withSummary, budget, toolTokens);
+      kept = second.kept;
+      dropped = [...dropped, ...second.dropped];
+      summarized = true;
+    } catch (error) {
+      logger.warn({ err: error, model: policy.summaryModel }, 'ContextSummaryFailed');
+    }
+  }
+
+  const fitted = estimateTokens(kept) + toolTokens;
+  logger.info(
+    {
+      strategy: policy.strategy,
+      budget,
+      estimatedTokens: estimated,
+      fittedTokens: fitted,
+      droppedMessages: dropped.length,
+      truncatedToolResults: truncated,
+      summarized,
+    },
+    'ContextTrimmed',
+  );
+  if (fitted > budget) {
+    logger.warn({ budget, fittedTokens: fitted }, 'ContextStillTooLong');
+  }
+
+  return kept;
+};
+
+/** Turns messages into a plain transcript for the summary model */
+export const formatTranscript = (messages: ChatCompletionMessageParam[]): string =>
+  messages
+    .map((msg) => {
+      const calls =
+        msg.role === 'assistant'
+          ? (msg.tool_calls ?? []).flatMap((call) =>
+              call.type === 'function'
+                ? [`[Called ${call.function.name} with ${call.function.arguments}]`]
+                : [],
+            )
+          : [];
+      return [`${msg.role}: ${getMessageText(msg)}`, ...calls].join('\n');
+    })
+    .join('\n\n');
@@ -0,0 +1,66 @@
+import { NextFunction, Request, Response } from 'express';
+import { z } from 'zod/v4';
+import { AppContext } from '../app';
+import { ModelConfig } from '../data/models';
+import { UsageQuery } from '../data/usage';
+import { HttpError } from '../errors';
+
+export interface AdminController {
+  listModels(req: Request, res: Response, next: NextFunction): void;
+  addModel(req: Request, res: Response, next: NextFunction): void;
+  updateModel(req: Request, res: Response, next: NextFunction): void;
+  deleteModel(req: Request, res: Response, next: NextFunction): void;
+  reloadModels(req: Request, res: Response, next: NextFunction): void;
+  /** The usage report of every client */
+  getUsage(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+const ModelNameParams = z.object({ name: z.string().min(1) });
+
+export const makeAdminController = ({ catalog, ledger }: AppContext): AdminController => {
+  return {
+    listModels: (req, res) => {
+      res.send({ models: catalog.getModels() });
+    },
+
+    addModel: (req, res) => {
+      const model = catalog.addModel(ModelConfig.parse(req.body));
+      req.log.info({ model: model.name }, 'AdminModelAdded');
+      res.status(201).send(model);
+    },
+
+    updateModel: (req, res) => {
+      const { name } = ModelNameParams.parse(req.params);
+      const parsed = ModelConfig.partial().parse(req.body);
+      // `partial` still fills in defaults, which would overwrite fields the patch leaves out
+      const patch = Object.fromEntries(
+        Object.entries(parsed).filter(([key]) => Object.hasOwn(req.body, key)),
+      );
+      const model = catalog.updateModel(name, patch);
+      req.log.info({ model: name }, 'AdminModelUpdated');
+      res.send(model);
+    },
+
+    deleteModel: (req, res) => {
+      const { name } = ModelNameParams.parse(req.params);
+      catalog.removeModel(name);
+      req.log.info({ model: name }, 'AdminModelDeleted');
+      res.status(204).end();
+    },
+
+    reloadModels: (req, res) => {
+      let changed: boolean;
+      try {
+        changed = catalog.reload();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new HttpError(422, `Invalid models file: ${message}`);
+      }
+      res.send({ changed, count: catalog.getModels().length });
+    },
+
+    getUsage: async (req, res) => {
+      res.send(await ledger.report(UsageQuery.parse(req.query)));
+    },
+  };
+};
@@ -1,219 +1,262 @@
 import { NextFunction, Request, Response } from 'express';
-import { ChatCompletionChunk, ChatCompletionCreateParamsStreaming } from 'openai/resources';
-import { match, P } from 'ts-pattern';
+import { ChatCompletionMessageParam } from 'openai/resources';
 import { z } from 'zod/v4';
 import { AppContext } from '../app';
 import {
-  fetchLocalOllamaModels,
-  findModelConfig,
-  generateModelInfo,
-  generateModelsList,
-  getOpenAIInstanceForModel,
-} from '../data/models';
-import { HttpError } from '../errors';
+  applyModelSystemPrompt,
+  assertModelAllowed,
+  CompletionSink,
+  getListedModels,
+  resolveModel,
+  runCompletion,
+  runEmbeddings,
+  writeStreamHeaders,
+} from '../completion';
+import { generateModelInfo, generateModelsList } from '../data/models';
+import { UsageQuery } from '../data/usage';
+import { isModelAllowed } from '../middleware/auth';
+import { resolveRemoteTools } from '../tools/remote';
 import {
+  convertOllamaGenerateToOpenAI,
   convertOllamaMessagesToOpenAI,
   convertRaycastToolsToOpenAI,
+  encodeGenerateContext,
+  getRaycastRemoteToolNames,
   makeOllamaChunk,
+  makeOllamaGenerateChunk,
   makeSSEMessage,
+  makeReasoningWriter,
   OllamaChatRequest,
-  OllamaChunkResponse,
+  OllamaEmbeddingsRequest,
+  OllamaEmbedRequest,
+  OllamaGenerateRequest,
+  ReasoningDisplay,
 } from '../util';
 
 export interface ApiController {
   getTags(req: Request, res: Response, next: NextFunction): void;
   getModelInfo(req: Request, res: Response, next: NextFunction): void;
   chatCompletion(req: Request, res: Response, next: NextFunction): Promise<void>;
+  generate(req: Request, res: Response, next: NextFunction): Promise<void>;
+  embed(req: Request, res: Response, next: NextFunction): Promise<void>;
+  embeddings(req: Request, res: Response, next: NextFunction): Promise<void>;
+  getUsage(req: Request, res: Response, next: NextFunction): Promise<void>;
 }
 
-export const makeApiController = ({ openai, models }: AppContext): ApiController => {
+const makeChatSink = (res: Response, model: string, display: ReasoningDisplay): CompletionSink => {
+  const writer = makeReasoningWriter(display, (text) => {
+    res.write(makeSSEMessage(makeOllamaChunk(model, text, false)));
+  });
+
+  return {
+    start: () => writeStreamHeaders(res),
+    reasoning: writer.reasoning,
+    content: writer.content,
+
+    toolCall: (call) => {
+      writer.end();
+      res.write(makeSSEMessage(makeOllamaChunk(model, '', false, undefined, { 0: call })));
+    },
+
+    ping: () => {
+      res.write('\n');
+    },
+
+    // Send final chunk with tool calls
+    finish: ({ doneReason, toolCalls, usage }) => {
+      writer.finish(usage);
+      res.write(makeSSEMessage(makeOllamaChunk(model, '', true, doneReason, toolCalls)));
+      res.end();
+    },
+
+    explainsLimits: true,
+    explainsFailures: true,
+  };
+};
+
+/**
+ * Streams `response` chunks, or buffers them into a single object when streaming is off.
+ * The final chunk carries the conversation as `context` so the client can continue it.
+ */
+const makeGenerateSink = (
+  res: Response,
+  { model, stream, raw }: OllamaGenerateRequest,
+  messages: ChatCompletionMessageParam[],
+  display: ReasoningDisplay,
+): CompletionSink => {
+  const startedAt = process.hrtime.bigint();
+  let response = '';
+
+  const writer = makeReasoningWriter(display, (text) => {
+    response += text;
+    if (stream) {
+      res.write(makeSSEMessage(makeOllamaGenerateChunk(model, text, false)));
+    }
+  });
+
+  return {
+    start: () => writeStreamHeaders(res),
+    reasoning: writer.reasoning,
+    content: writer.content,
+
+    ping: () => {
+      res.write('\n');
+    },
+
+    finish: ({ doneReason, usage }) => {
+      writer.finish(usage);
+      const context = raw ? undefined : encodeGenerateContext(messages, response);
+      const finalChunk = {
+        ...makeOllamaGenerateChunk(model, stream ? '' : response, true, doneReason ?? 'stop'),
+        context,
+        total_duration: Number(process.hrtime.bigint() - startedAt),
+        prompt_eval_count: usage?.prompt_tokens,
+        eval_count: usage?.completion_tokens,
+      };
+      res.write(makeSSEMessage(finalChunk));
+      res.end();
+    },
+
+    explainsLimits: true,
+    explainsFailures: true,
+  };
+};
+
+export const makeApiController = (ctx: AppContext): ApiController => {
+  const { ledger } = ctx;
+
   return {
     getTags: async (req, res) => {
-      const modelsList = await generateModelsList(models);
+      const modelsList = generateModelsList(getListedModels(ctx), (config) =>
+        isModelAllowed(req.authClient, config.name),
+      );
       res.send(modelsList);
     },
 
     getModelInfo: async (req, res) => {
       const { model } = z.object({ model: z.string() }).parse(req.body);
-      const modelInfo = await generateModelInfo(models, model);
+      assertModelAllowed(req, model);
+      const modelInfo = generateModelInfo(getListedModels(ctx), model);
       res.send(modelInfo);
     },
 
     chatCompletion: async (req, res) => {
       const { messages, model: requestedModel, tools } = OllamaChatRequest.parse(req.body);
+      const convertedMessages = convertOllamaMessagesToOpenAI(messages);
+      const openaiTools = convertRaycastToolsToOpenAI(tools);
+      // Substitutes for Raycast's remote tools, which need a model that can call tools too
+      const remoteTools = resolveRemoteTools(
+        getRaycastRemoteToolNames(tools),
+        { searchBackend: ctx.searchBackend },
+        req.log,
+      );
+      const { modelConfig, allModels } = await resolveModel(ctx, req, requestedModel, 'chat', {
+        messages: convertedMessages,
+        tools: [...(openaiTools ?? []), ...remoteTools.map((tool) => tool.definition)],
+      });
+
+      const openaiMessages = applyModelSystemPrompt(
+        ctx,
+        req,
+        requestedModel,
+        modelConfig,
+        convertedMessages,
+      );
+      // Proxy-side tools: the remote tool substitutes and the model's MCP servers
+      const serverTools = [
+        ...remoteTools,
+        ...(await ctx.mcp.getTools(modelConfig.mcpServers ?? [], req.log)),
+      ];
+
+      await runCompletion(
+        ctx,
+        req,
+        res,
+        {
+          requestedModel,
+          modelConfig,
+          allModels,
+          messages: openaiMessages,
+          tools: openaiTools,
+          serverTools,
+        },
+        makeChatSink(res, requestedModel, modelConfig.reasoningDisplay ?? 'think'),
+      );
+    },
 
-      // 获取本地 Ollama 模型
-      const localModels = await fetchLocalOllamaModels();
-
-      // 合并配置文件中的模型和本地 Ollama 模型
-      const allModels = [...models, ...localModels];
-
-      const modelConfig = findModelConfig(allModels, requestedModel);
-
-      if (!modelConfig) {
-        throw new HttpError(400, `Model ${requestedModel} not found`);
+    generate: async (req, res) => {
+      const request = OllamaGenerateRequest.parse(req.body);
+      const { model: requestedModel } = request;
+      const convertedMessages = convertOllamaGenerateToOpenAI(request);
+      const { modelConfig, allModels } = await resolveModel(ctx, req, requestedModel, 'chat', {
+        messages: convertedMessages,
+      });
+
+      // An empty prompt only asks Ollama to load the model
+      if (!request.prompt && !request.images?.length) {
+        res.send(makeOllamaGenerateChunk(requestedModel, '', true, 'load'));
+        return;
       }
 
-      // 获取用于此模型的 OpenAI 实例（可能是模型特定的实例或默认实例）
-      const modelOpenAI = getOpenAIInstanceForModel(modelConfig, openai);
-
-      const openaiMessages = convertOllamaMessagesToOpenAI(messages);
-      const openaiTools = convertRaycastToolsToOpenAI(tools);
-
-      const chatConfig: ChatCompletionCreateParamsStreaming = {
-        ...modelConfig.extra,
-        model: modelConfig.id,
-        messages: openaiMessages,
-        stream: true,
-        stream_options: { include_usage: true },
-        temperature: modelConfig.temperature,
-        top_p: modelConfig.topP,
-        max_completion_tokens: modelConfig.max_tokens,
-        ...(openaiTools && { tools: openaiTools }),
-      };
+      // A raw prompt is sent exactly as given
+      const messages = request.raw
+        ? convertedMessages
+        : applyModelSystemPrompt(ctx, req, requestedModel, modelConfig, convertedMessages);
+
+      await runCompletion(
+        ctx,
+        req,
+        res,
+        {
+          requestedModel,
+          modelConfig,
+          allModels,
+          messages,
+          serverTools: await ctx.mcp.getTools(modelConfig.mcpServers ?? [], req.log),
+        },
+        makeGenerateSink(res, request, messages, modelConfig.reasoningDisplay ?? 'think'),
+      );
+    },
 
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { messages: _, ...configWithoutMessages } = chatConfig;
-      req.log.info({ configWithoutMessages }, 'ChatCompletionRequest');
+    embed: async (req, res) => {
+      const { model: requestedModel, input, dimensions } = OllamaEmbedRequest.parse(req.body);
+      const { modelConfig } = await resolveModel(ctx, req, requestedModel, 'embedding');
+
+      const startedAt = process.hrtime.bigint();
+      const inputs = Array.isArray(input) ? input : [input];
+      const { embeddings, promptTokens } = await runEmbeddings(
+        ctx,
+        req,
+        requestedModel,
+        modelConfig,
+        inputs,
+        dimensions,
+      );
+
+      res.send({
+        model: requestedModel,
+        embeddings,
+        total_duration: Number(process.hrtime.bigint() - startedAt),
+        load_duration: 0,
+        prompt_eval_count: promptTokens,
+      });
+    },
 
-      let pingInterval: NodeJS.Timeout | undefined = undefined;
-      const abortController = new AbortController();
+    embeddings: async (req, res) => {
+      const { model: requestedModel, prompt } = OllamaEmbeddingsRequest.parse(req.body);
+      const { modelConfig } = await resolveModel(ctx, req, requestedModel, 'embedding');
 
-      const cleanup = () => {
-        if (!abortController.signal.aborted) {
-          abortController.abort();
-        }
-        clearInterval(pingInterval);
-        req.log.info('ConnectionCleanup');
-      };
+      const { embeddings } = await runEmbeddings(ctx, req, requestedModel, modelConfig, [prompt]);
+      res.send({ embedding: embeddings[0] });
+    },
 
-      try {
-        const stream = await modelOpenAI.chat.completions.create(chatConfig, {
-          signal: abortController.signal,
-        });
-
-        res.writeHead(200, {
-          'Content-Type': 'application/json',
-          'Transfer-Encoding': 'chunked',
-          'Cache-Control': 'no-cache',
-          Connection: 'keep-alive',
-        });
-
-        pingInterval = setInterval(() => {
-          res.write('\n');
-          req.log.info('ConnectionPing');
-        }, 10000);
-
-        res.on('close', () => {
-          cleanup();
-        });
-
-        const finalToolCalls: Record<number, ChatCompletionChunk.Choice.Delta.ToolCall> = {};
-        let finish_reason: OllamaChunkResponse['done_reason'] = undefined;
-        let reasoning = false;
-
-        for await (const chunk of stream) {
-          const delta = chunk.choices[0]?.delta;
-          if (!delta) continue;
-
-          const reasoning_content = (delta as { reasoning_content?: string }).reasoning_content;
-          const content = delta?.content;
-
-          const toolCalls = delta?.tool_calls;
-
-          // 处理 reasoning_content 和 content 的整合输出
-          let outputContent = '';
-
-          match({
-            reasoning_content,
-            content,
-            reasoning: reasoning as boolean,
-          })
-            .with(
-              { reasoning: false, reasoning_content: P.string.minLength(1) },
-              ({ reasoning_content }) => {
-                reasoning = true;
-
-                const thinkTagChunk = makeOllamaChunk(requestedModel, '<think>', false);
-                res.write(makeSSEMessage(thinkTagChunk));
-
-                outputContent = reasoning_content;
-              },
-            )
-            .with(
-              { reasoning: true, reasoning_content: P.string.minLength(1) },
-              ({ reasoning_content }) => {
-                outputContent = reasoning_content ?? '';
-              },
-            )
-            .with(
-              { reasoning: true, content: P.string.minLength(1) },
-              ({ reasoning_content, content }) => {
-                reasoning = false;
-
-                if (reasoning_content) {
-                  const reasoningChunk = makeOllamaChunk(requestedModel, reasoning_content, false);
-                  res.write(makeSSEMessage(reasoningChunk));
-                }
-
-                const thinkTagChunk = makeOllamaChunk(requestedModel, '</think>', false);
-                res.write(makeSSEMessage(thinkTagChunk));
-
-                outputContent = content;
-              },
-            )
-            .otherwise(() => {
-              outputContent = content ?? '';
-            });
-
-          if (outputContent) {
-            const ollamaChunk = makeOllamaChunk(requestedModel, outputContent, false);
-            res.write(makeSSEMessage(ollamaChunk));
-          }
-
-          if (toolCalls) {
-            for (const toolCall of toolCalls) {
-              const { index } = toolCall;
-
-              if (!finalToolCalls[index]) {
-                finalToolCalls[index] = {
-                  index: toolCall.index,
-                  id: toolCall.id,
-                  type: toolCall.type,
-                  function: {
-                    name: toolCall.function?.name || '',
-                    arguments: toolCall.function?.arguments || '',
-                  },
-                };
-              } else {
-                if (finalToolCalls[index]?.function) {
-                  finalToolCalls[index].function.arguments += toolCall.function?.arguments || '';
-                }
-              }
-            }
-          }
-
-          const reason = chunk.choices[0]?.finish_reason;
-          if (reason) {
-            if (reason === 'stop' || reason === 'tool_calls') {
-              finish_reason = reason;
-            } else {
-              finish_reason = 'stop';
-            }
-          }
-
-          if (chunk.usage) {
-            req.log.info({ usage: chunk.usage }, 'CompletionUsage');
-          }
-        }
-
-        // Send final chunk with tool calls
-        const finalChunk = makeOllamaChunk(requestedModel, '', true, finish_reason, finalToolCalls);
-        res.write(makeSSEMessage(finalChunk));
-        res.end();
-      } finally {
-        cleanup();
-      }
+    getUsage: async (req, res) => {
+      const query = UsageQuery.parse(req.query);
+      // A client only sees its own usage; the whole proxy's is on the admin API
+      const report = await ledger.report(
+        req.authClient ? { ...query, client: req.authClient.name } : query,
+      );
+      res.send(report);
     },
   };
 };
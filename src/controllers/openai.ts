@@ -0,0 +1,232 @@
+import { randomBytes } from 'node:crypto';
+import { NextFunction, Request, Response } from 'express';
+import {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageFunctionToolCall,
+  ChatCompletionTool,
+} from 'openai/resources';
+import { AppContext } from '../app';
+import {
+  applyModelSystemPrompt,
+  ClientChatParams,
+  CompletionResult,
+  CompletionSink,
+  getListedModels,
+  resolveModel,
+  runCompletion,
+} from '../completion';
+import { isModelAllowed } from '../middleware/auth';
+import { OpenAIChatRequest } from '../util';
+
+export interface OpenAIController {
+  listModels(req: Request, res: Response, next: NextFunction): Promise<void>;
+  chatCompletion(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+const makeId = (prefix: string) => `${prefix}-${randomBytes(12).toString('hex')}`;
+
+const toToolCalls = ({ toolCalls }: CompletionResult): ChatCompletionMessageFunctionToolCall[] =>
+  Object.values(toolCalls)
+    .filter((call) => call.function?.name)
+    .map((call) => ({
+      id: call.id || makeId('call'),
+      type: 'function',
+      function: {
+        name: call.function?.name ?? '',
+        arguments: call.function?.arguments || '{}',
+      },
+    }));
+
+const toFinishReason = (result: CompletionResult) =>
+  Object.keys(result.toolCalls).length > 0 ? 'tool_calls' : (result.doneReason ?? 'stop');
+
+/**
+ * Writes OpenAI `chat.completion.chunk` server-sent events, ending with `[DONE]`.
+ */
+const makeStreamingSink = (res: Response, model: string, includeUsage: boolean): CompletionSink => {
+  const id = makeId('chatcmpl');
+  const created = Math.floor(Date.now() / 1000);
+
+  const write = (
+    delta: ChatCompletionChunk.Choice.Delta & { reasoning_content?: string },
+    finish_reason: ChatCompletionChunk.Choice['finish_reason'] = null,
+  ) => {
+    const chunk: ChatCompletionChunk = {
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [{ index: 0, delta, finish_reason }],
+    };
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  };
+
+  return {
+    start: () => {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      write({ role: 'assistant', content: '' });
+    },
+
+    reasoning: (text) => write({ reasoning_content: text }),
+    content: (text) => write({ content: text }),
+
+    // SSE comments are ignored by clients
+    ping: () => {
+      res.write(': ping\n\n');
+    },
+
+    finish: (result) => {
+      const toolCalls = toToolCalls(result);
+      if (toolCalls.length > 0) {
+        write({ tool_calls: toolCalls.map((call, index) => ({ index, ...call })) });
+      }
+      write({}, toFinishReason(result));
+
+      if (includeUsage && result.usage) {
+        const chunk: ChatCompletionChunk = {
+          id,
+          object: 'chat.completion.chunk',
+          created,
+          model,
+          choices: [],
+          usage: result.usage,
+        };
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      }
+
+      res.write('data: [DONE]\n\n');
+      res.end();
+    },
+  };
+};
+
+/**
+ * Collects the whole completion and responds with a single `chat.completion` object.
+ */
+const makeBufferedSink = (res: Response, model: string): CompletionSink => {
+  let reasoning = '';
+  let content = '';
+
+  // Headers wait for the first write, so that a failure before it still gets its status
+  const writeHead = () => {
+    if (!res.headersSent) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+    }
+  };
+
+  return {
+    start: () => {},
+
+    reasoning: (text) => {
+      reasoning += text;
+    },
+
+    content: (text) => {
+      content += text;
+    },
+
+    // Leading whitespace is valid JSON and keeps the connection from timing out
+    ping: () => {
+      writeHead();
+      res.write('\n');
+    },
+
+    finish: (result) => {
+      writeHead();
+      const toolCalls = toToolCalls(result);
+      const completion: ChatCompletion = {
+        id: makeId('chatcmpl'),
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: content || null,
+              refusal: null,
+              ...(reasoning && { reasoning_content: reasoning }),
+              ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+            },
+            finish_reason: toFinishReason(result),
+            logprobs: null,
+          },
+        ],
+        usage: result.usage,
+      };
+      res.end(JSON.stringify(completion));
+    },
+  };
+};
+
+export const makeOpenAIController = (ctx: AppContext): OpenAIController => {
+  return {
+    listModels: async (req, res) => {
+      const models = getListedModels(ctx).filter((config) =>
+        isModelAllowed(req.authClient, config.name),
+      );
+      res.send({
+        object: 'list',
+        data: models.map((config) => ({
+          id: config.name,
+          object: 'model',
+          created: 0,
+          owned_by: 'raycast-ai-openrouter-proxy',
+        })),
+      });
+    },
+
+    chatCompletion: async (req, res) => {
+      const {
+        model: requestedModel,
+        messages,
+        tools,
+        stream,
+        stream_options,
+        max_tokens,
+        ...rest
+      } = OpenAIChatRequest.parse(req.body);
+      const openaiMessages: ChatCompletionMessageParam[] = messages;
+      const openaiTools: ChatCompletionTool[] | undefined = tools?.length ? tools : undefined;
+      const { modelConfig, allModels } = await resolveModel(ctx, req, requestedModel, 'chat', {
+        messages: openaiMessages,
+        tools: openaiTools,
+      });
+
+      // Unset fields must not override the model's defaults
+      const params = Object.fromEntries(
+        Object.entries({
+          ...rest,
+          max_completion_tokens: rest.max_completion_tokens ?? max_tokens,
+        }).filter(([, value]) => value !== undefined && value !== null),
+      ) as ClientChatParams;
+
+      const sink = stream
+        ? makeStreamingSink(res, requestedModel, !!stream_options?.include_usage)
+        : makeBufferedSink(res, requestedModel);
+
+      await runCompletion(
+        ctx,
+        req,
+        res,
+        {
+          requestedModel,
+          modelConfig,
+          allModels,
+          messages: applyModelSystemPrompt(ctx, req, requestedModel, modelConfig, openaiMessages),
+          tools: openaiTools,
+          serverTools: await ctx.mcp.getTools(modelConfig.mcpServers ?? [], req.log),
+          params,
+        },
+        sink,
+      );
+    },
+  };
+};
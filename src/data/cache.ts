@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import { ChatCompletionChunk, ChatCompletionCreateParamsStreaming } from 'openai/resources';
+import { OllamaChunkResponse } from '../util';
+import { CachePolicy, ModelConfig } from './models';
+
+/**
+ * Everything needed to replay a completed response as the same chunk stream:
+ * the reasoning and content pieces in order, followed by the final chunk.
+ */
+export interface CachedResponse {
+  parts: { type: 'reasoning' | 'content'; text: string }[];
+  doneReason: OllamaChunkResponse['done_reason'];
+  toolCalls: Record<number, ChatCompletionChunk.Choice.Delta.ToolCall>;
+}
+
+export interface LruCacheOptions {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface LruCache<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T, ttlMs: number): void;
+  clear(): void;
+  stats(): { entries: number; bytes: number };
+}
+
+export type ResponseCache = LruCache<CachedResponse>;
+
+interface CacheEntry<T> {
+  value: T;
+  size: number;
+  expiresAt: number;
+}
+
+/**
+ * Returns the model's cache policy if this request may be cached. Caching is opt-in per
+ * model, and requests that are not deterministic or use tools are skipped unless allowed.
+ * An unset temperature counts as non-deterministic, since most providers default to 1.
+ */
+export const getCachePolicy = (
+  config: ModelConfig,
+  { tools, temperature }: ChatCompletionCreateParamsStreaming,
+): CachePolicy | undefined => {
+  const policy = config.cache;
+  if (!policy) return undefined;
+  if (tools?.length && !policy.allowTools) return undefined;
+  if ((temperature ?? 1) > 0 && !policy.allowNonDeterministic) return undefined;
+  return policy;
+};
+
+/**
+ * Hashes the parts of a request that determine its response. Object keys are sorted
+ * so that equivalent requests always produce the same key.
+ */
+export const makeCacheKey = (request: unknown): string => {
+  const stable = JSON.stringify(request, (_key, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+    }
+    return value;
+  });
+  return crypto.createHash('sha256').update(stable).digest('hex');
+};
+
+/**
+ * In-memory LRU cache with per-entry TTL. The least recently used entries are evicted
+ * once either the entry count or the total size limit is exceeded.
+ */
+export const makeLruCache = <T>({ maxEntries, maxBytes }: LruCacheOptions): LruCache<T> => {
+  // Map iteration order doubles as recency order: the first entry is the oldest
+  const entries = new Map<string, CacheEntry<T>>();
+  let bytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry) {
+      bytes -= entry.size;
+      entries.delete(key);
+    }
+  };
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set: (key, value, ttlMs) => {
+      const size = Buffer.byteLength(JSON.stringify(value));
+      if (size > maxBytes || maxEntries === 0) return;
+
+      remove(key);
+      entries.set(key, { value, size, expiresAt: Date.now() + ttlMs });
+      bytes += size;
+
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries && bytes <= maxBytes) break;
+        remove(oldest);
+      }
+    },
+
+    clear: () => {
+      entries.clear();
+      bytes = 0;
+    },
+
+    stats: () => ({ entries: entries.size, bytes }),
+  };
+};
+
+/** Caches complete responses to deterministic requests; see `getCachePolicy` */
+export const makeResponseCache = (options: LruCacheOptions): ResponseCache =>
+  makeLruCache<CachedResponse>(options);
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import { Logger } from 'pino';
+import { HttpError } from '../errors';
+import { ModelImporter } from './imports';
+import { findModelConfig, ModelConfig, parseModels, ParsedCatalog, RouterModel } from './models';
+
+export interface ModelCatalog {
+  /**
+   * Returns the current snapshot of the catalog, followed by the imported models that no
+   * configured model replaces. The array is replaced, never mutated, so callers can hold
+   * on to it for the lifetime of a request.
+   */
+  getModels(): ModelConfig[];
+  getRouters(): RouterModel[];
+  /**
+   * Re-reads the file. Returns whether the catalog changed and throws if the file is invalid,
+   * in which case the previous catalog is kept.
+   */
+  reload(): boolean;
+  addModel(model: ModelConfig): ModelConfig;
+  updateModel(name: string, patch: Partial<ModelConfig>): ModelConfig;
+  removeModel(name: string): void;
+  watch(): void;
+  close(): void;
+}
+
+const WATCH_INTERVAL_MS = 1000;
+
+const assertUniqueNames = (models: { name: string }[]) => {
+  const seen = new Set<string>();
+  for (const model of models) {
+    if (seen.has(model.name)) {
+      throw new Error(`Duplicate model name "${model.name}"`);
+    }
+    seen.add(model.name);
+  }
+};
+
+/**
+ * Keeps the models.json catalog in memory and in sync with the file on disk.
+ * Invalid edits are rejected and the last good catalog stays active.
+ *
+ * `import` entries are handed to the importer, which builds their models.
+ */
+export const makeModelCatalog = (
+  filePath: string,
+  logger: Logger,
+  importer?: ModelImporter,
+): ModelCatalog => {
+  const log = logger.child({ category: 'ModelCatalog' });
+
+  const readFromDisk = (): { raw: string } & ParsedCatalog => {
+    const raw = fs.readFileSync(filePath, 'utf8');
+    const { models, imports, routers } = parseModels(JSON.parse(raw));
+    assertUniqueNames([...models, ...routers]);
+    return { raw, models, imports, routers };
+  };
+
+  let { raw: lastRaw, models: current, imports, routers } = readFromDisk();
+  importer?.setImports(imports);
+  let watching = false;
+
+  // Configured models replace imported models with the same name or ID
+  let merged: { models: ModelConfig[]; imported: ModelConfig[]; all: ModelConfig[] } | undefined;
+  const getAllModels = (): ModelConfig[] => {
+    const imported = importer?.getModels() ?? [];
+    if (merged?.models !== current || merged.imported !== imported) {
+      const names = new Set(current.map((config) => config.name));
+      const ids = new Set(current.map((config) => config.id));
+      const all = [
+        ...current,
+        ...imported.filter((config) => !names.has(config.name) && !ids.has(config.id)),
+      ];
+      merged = { models: current, imported, all };
+    }
+    return merged.all;
+  };
+
+  // Local Ollama models are discovered later, so a router can only be checked against the
+  // configured and imported models here. Requests routed to a missing model fail.
+  const checkRouterTargets = () => {
+    const models = getAllModels();
+    for (const { name, router } of routers) {
+      const targets = new Set([router.default, ...router.rules.map((rule) => rule.model)]);
+      for (const target of targets) {
+        if (!findModelConfig(models, target)) {
+          log.warn({ router: name, target }, 'RouterTargetNotFound');
+        }
+      }
+    }
+  };
+  checkRouterTargets();
+
+  const persist = (models: ModelConfig[]) => {
+    assertUniqueNames([...models, ...routers]);
+    const entries = [...models, ...routers, ...imports.map((entry) => ({ import: entry }))];
+    const raw = `${JSON.stringify(entries, null, 2)}\n`;
+    // Write in place rather than rename, so single-file bind mounts keep working
+    fs.writeFileSync(filePath, raw, 'utf8');
+    lastRaw = raw;
+    current = models;
+    log.info({ count: models.length }, 'ModelCatalogPersisted');
+    checkRouterTargets();
+  };
+
+  const findIndex = (name: string): number => {
+    const index = current.findIndex((model) => model.name === name);
+    if (index === -1) {
+      throw new HttpError(404, `Model ${name} not found`);
+    }
+    return index;
+  };
+
+  const catalog: ModelCatalog = {
+    getModels: getAllModels,
+
+    getRouters: () => routers,
+
+    reload: () => {
+      const next = readFromDisk();
+      if (next.raw === lastRaw) {
+        return false;
+      }
+      ({ raw: lastRaw, models: current, imports, routers } = next);
+      importer?.setImports(imports);
+      log.info(
+        { count: current.length, imports: imports.length, routers: routers.length },
+        'ModelCatalogReloaded',
+      );
+      checkRouterTargets();
+      return true;
+    },
+
+    addModel: (model) => {
+      const parsed = ModelConfig.parse(model);
+      if ([...current, ...routers].some((config) => config.name === parsed.name)) {
+        throw new HttpError(409, `Model ${parsed.name} already exists`);
+      }
+      persist([...current, parsed]);
+      return parsed;
+    },
+
+    updateModel: (name, patch) => {
+      const index = findIndex(name);
+      const updated = ModelConfig.parse({ ...current[index], ...patch });
+      const others = [...current, ...routers].filter((config) => config.name !== name);
+      if (others.some((config) => config.name === updated.name)) {
+        throw new HttpError(409, `Model ${updated.name} already exists`);
+      }
+      persist(current.map((config, i) => (i === index ? updated : config)));
+      return updated;
+    },
+
+    removeModel: (name) => {
+      const index = findIndex(name);
+      persist(current.filter((_, i) => i !== index));
+    },
+
+    // fs.watchFile polls instead of relying on inotify, which does not survive
+    // editors that replace the file or Docker bind mounts.
+    watch: () => {
+      if (watching) return;
+      watching = true;
+      fs.watchFile(filePath, { interval: WATCH_INTERVAL_MS }, (curr, prev) => {
+        if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) {
+          return;
+        }
+        try {
+          catalog.reload();
+        } catch (error) {
+          log.error(error, 'ModelCatalogReloadFailed');
+        }
+      });
+      log.info({ filePath }, 'ModelCatalogWatching');
+    },
+
+    close: () => {
+      if (!watching) return;
+      watching = false;
+      fs.unwatchFile(filePath);
+    },
+  };
+
+  return catalog;
+};
@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Logger } from 'pino';
+import { patternToRegExp } from '../patterns';
+import { ModelConfig, ModelImport } from './models';
+
+export const DEFAULT_IMPORT_CACHE_PATH = path.resolve(__dirname, '../../data/model-imports');
+
+const REQUEST_TIMEOUT_MS = 15000;
+const TICK_INTERVAL_MS = 60 * 1000;
+
+export interface ModelImporter {
+  /** Models of every import, from the last successful fetch of each provider */
+  getModels(): ModelConfig[];
+  /** Replaces the imports, e.g. when `models.json` is reloaded */
+  setImports(imports: ModelImport[]): void;
+  /** Fetches the providers whose listing is older than their refresh interval */
+  refresh(): Promise<void>;
+  start(): void;
+  stop(): void;
+}
+
+export interface ImportDefaults {
+  baseUrl: string;
+  apiKey: string;
+}
+
+/** The fields OpenRouter returns; other providers may only return `id` */
+interface ProviderModel {
+  id: string;
+  name?: string;
+  context_length?: number | null;
+  architecture?: { input_modalities?: string[] };
+  supported_parameters?: string[];
+  /** USD per token, as strings */
+  pricing?: { prompt?: string; completion?: string };
+  top_provider?: { context_length?: number | null };
+}
+
+interface ProviderListing {
+  baseUrl: string;
+  fetchedAt: number;
+  models: ProviderModel[];
+}
+
+const toPerMillion = (price?: string): number | undefined => {
+  const value = Number(price);
+  return price !== undefined && Number.isFinite(value) && value >= 0
+    ? value * 1_000_000
+    : undefined;
+};
+
+/** Values the provider reports; anything it does not is left out, so defaults can fill in */
+const describeProviderModel = (model: ProviderModel): Record<string, unknown> => {
+  const prompt = toPerMillion(model.pricing?.prompt);
+  const completion = toPerMillion(model.pricing?.completion);
+  const capabilities = [
+    ...(model.architecture?.input_modalities?.includes('image') ? ['vision'] : []),
+    ...(model.supported_parameters?.includes('tools') ? ['tools'] : []),
+    ...(model.supported_parameters?.includes('reasoning') ? ['thinking'] : []),
+  ];
+  const reported = {
+    name: model.name ?? model.id,
+    id: model.id,
+    contextLength: model.context_length ?? model.top_provider?.context_length ?? undefined,
+    capabilities: model.architecture || model.supported_parameters ? capabilities : undefined,
+    pricing: prompt !== undefined && completion !== undefined ? { prompt, completion } : undefined,
+  };
+  return Object.fromEntries(Object.entries(reported).filter(([, value]) => value !== undefined));
+};
+
+const matchesAny = (patterns: string[], id: string) =>
+  patterns.some((pattern) => patternToRegExp(pattern).test(id));
+
+/**
+ * Keeps the models of the `import` entries in `models.json` up to date. Each provider's
+ * listing is saved to disk, so imported models stay available when the provider cannot
+ * be reached, including right after a restart.
+ */
+export const makeModelImporter = (
+  defaults: ImportDefaults,
+  cacheDir: string,
+  logger: Logger,
+): ModelImporter => {
+  const log = logger.child({ category: 'ModelImporter' });
+  const listings = new Map<string, ProviderListing>();
+  let imports: ModelImport[] = [];
+  let current: ModelConfig[] = [];
+  let lastSkipped = 0;
+  let timer: NodeJS.Timeout | undefined = undefined;
+  let refreshing: Promise<void> | undefined = undefined;
+
+  const getBaseUrl = (entry: ModelImport) =>
+    (entry.baseUrl ?? defaults.baseUrl).replace(/\/+$/, '');
+
+  const getCachePath = (baseUrl: string) => {
+    const hash = crypto.createHash('sha256').update(baseUrl).digest('hex').slice(0, 16);
+    return path.join(cacheDir, `${hash}.json`);
+  };
+
+  const readCache = (baseUrl: string) => {
+    if (listings.has(baseUrl)) return;
+    const cachePath = getCachePath(baseUrl);
+    if (!fs.existsSync(cachePath)) return;
+    try {
+      listings.set(baseUrl, JSON.parse(fs.readFileSync(cachePath, 'utf8')) as ProviderListing);
+    } catch (error) {
+      log.warn({ err: error, cachePath }, 'ModelImportCacheInvalid');
+    }
+  };
+
+  const writeCache = (listing: ProviderListing) => {
+    try {
+      fs.mkdirSync(cacheDir, { recursive: true });
+      fs.writeFileSync(getCachePath(listing.baseUrl), JSON.stringify(listing), 'utf8');
+    } catch (error) {
+      log.warn({ err: error, baseUrl: listing.baseUrl }, 'ModelImportCacheWriteFailed');
+    }
+  };
+
+  const build = () => {
+    const models: ModelConfig[] = [];
+    const names = new Set<string>();
+    let skipped = 0;
+
+    for (const entry of imports) {
+      const baseUrl = getBaseUrl(entry);
+      for (const providerModel of listings.get(baseUrl)?.models ?? []) {
+        const { id } = providerModel;
+        if (!matchesAny(entry.include, id) || matchesAny(entry.exclude, id)) continue;
+
+        const parsed = ModelConfig.safeParse({
+          ...entry.defaults,
+          ...describeProviderModel(providerModel),
+          ...(entry.baseUrl && { baseUrl: entry.baseUrl, apiKey: entry.apiKey }),
+          ...entry.overrides[id],
+        });
+        // Typically a model without a context length and no default for it
+        if (!parsed.success) {
+          skipped++;
+          continue;
+        }
+        if (names.has(parsed.data.name)) continue;
+        names.add(parsed.data.name);
+        models.push(parsed.data);
+      }
+    }
+
+    if (models.length !== current.length || skipped !== lastSkipped) {
+      log.info({ count: models.length, skipped }, 'ModelsImported');
+    }
+    current = models;
+    lastSkipped = skipped;
+  };
+
+  const fetchListing = async (baseUrl: string, apiKey: string): Promise<ProviderListing> => {
+    const response = await fetch(`${baseUrl}/models`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    const { data } = (await response.json()) as { data?: ProviderModel[] };
+    if (!Array.isArray(data)) {
+      throw new Error('The response has no model list');
+    }
+    return { baseUrl, fetchedAt: Date.now(), models: data };
+  };
+
+  const refreshProviders = async () => {
+    // Imports from the same provider share one listing and the shortest interval
+    const due = new Map<string, string>();
+    for (const entry of imports) {
+      const baseUrl = getBaseUrl(entry);
+      const fetchedAt = listings.get(baseUrl)?.fetchedAt ?? 0;
+      if (Date.now() - fetchedAt >= entry.refreshIntervalMinutes * 60 * 1000) {
+        due.set(baseUrl, entry.apiKey ?? defaults.apiKey);
+      }
+    }
+
+    await Promise.all(
+      [...due].map(async ([baseUrl, apiKey]) => {
+        try {
+          const listing = await fetchListing(baseUrl, apiKey);
+          listings.set(baseUrl, listing);
+          writeCache(listing);
+        } catch (error) {
+          // Keep whatever was fetched before; it is tried again on the next tick
+          log.warn({ err: error, baseUrl, cached: listings.has(baseUrl) }, 'ModelImportFailed');
+        }
+      }),
+    );
+    build();
+  };
+
+  const refresh = () => {
+    refreshing ??= refreshProviders().finally(() => {
+      refreshing = undefined;
+    });
+    return refreshing;
+  };
+
+  return {
+    getModels: () => current,
+
+    setImports: (next) => {
+      imports = next;
+      for (const entry of imports) {
+        readCache(getBaseUrl(entry));
+      }
+      build();
+      if (timer) void refresh();
+    },
+
+    refresh,
+
+    start: () => {
+      if (timer) return;
+      void refresh();
+      timer = setInterval(() => void refresh(), TICK_INTERVAL_MS);
+      timer.unref();
+    },
+
+    stop: () => {
+      clearInterval(timer);
+      timer = undefined;
+    },
+  };
+};
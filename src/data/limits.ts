@@ -0,0 +1,200 @@
+import { Logger } from 'pino';
+import { match } from 'ts-pattern';
+import { UsageLimits } from './models';
+import { UsageRecord } from './usage';
+
+const MINUTE_MS = 60 * 1000;
+
+export type LimitScope = 'global' | 'client' | 'model';
+
+export interface LimitSubject {
+  /** The model the request was resolved to, after routing */
+  model: string;
+  modelLimits?: UsageLimits;
+  client?: string;
+  clientLimits?: UsageLimits;
+}
+
+export interface LimitViolation {
+  scope: LimitScope;
+  /** The model or client name, for scopes other than `global` */
+  name?: string;
+  limit: keyof UsageLimits;
+  max: number;
+  used: number;
+  resetsAt: Date;
+}
+
+export interface UsageLimiter {
+  /** Counts records from the ledger, so that spending survives restarts */
+  load(records: AsyncIterable<UsageRecord>): Promise<void>;
+  /**
+   * Returns the first limit that is already used up. Otherwise the request is counted
+   * towards the per-minute limits and undefined is returned.
+   */
+  check(subject: LimitSubject, now?: Date): LimitViolation | undefined;
+  record(record: UsageRecord): void;
+}
+
+interface Counter {
+  day: string;
+  month: string;
+  dayTokens: number;
+  dayCost: number;
+  monthCost: number;
+  /** Start times of the requests in the last minute */
+  requests: number[];
+}
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+const toMonth = (date: Date) => date.toISOString().slice(0, 7);
+
+const nextDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+const nextMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1));
+
+const scopeKey = (scope: LimitScope, name?: string) =>
+  scope === 'global' ? scope : `${scope}:${name}`;
+
+/** The first day of the current month, which is as far back as any limit looks */
+export const getLimitWindowStart = (now = new Date()): string =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth())).toISOString();
+
+/**
+ * Tracks usage against the global limits, each client's limits and each model's limits.
+ * Token and cost counters follow the usage records; request counters are kept in memory
+ * only, since they cover just the last minute.
+ */
+export const makeUsageLimiter = (globalLimits: UsageLimits, logger: Logger): UsageLimiter => {
+  const log = logger.child({ category: 'UsageLimiter' });
+  const counters = new Map<string, Counter>();
+
+  // Starts a new day or month once the date has moved on
+  const getCounter = (key: string, date: Date): Counter => {
+    const day = toDay(date);
+    const month = toMonth(date);
+    let counter = counters.get(key);
+    if (!counter) {
+      counter = { day, month, dayTokens: 0, dayCost: 0, monthCost: 0, requests: [] };
+      counters.set(key, counter);
+    }
+    if (counter.month < month) {
+      counter.month = month;
+      counter.monthCost = 0;
+    }
+    if (counter.day < day) {
+      counter.day = day;
+      counter.dayTokens = 0;
+      counter.dayCost = 0;
+    }
+    counter.requests = counter.requests.filter((time) => time > date.getTime() - MINUTE_MS);
+    return counter;
+  };
+
+  const add = (key: string, record: UsageRecord) => {
+    const date = new Date(record.timestamp);
+    const counter = getCounter(key, date);
+    // Records from an earlier day can show up when a long stream crosses midnight
+    if (counter.day === toDay(date)) {
+      counter.dayTokens += record.promptTokens + record.completionTokens;
+      counter.dayCost += record.cost ?? 0;
+    }
+    if (counter.month === toMonth(date)) {
+      counter.monthCost += record.cost ?? 0;
+    }
+  };
+
+  const record = (record: UsageRecord) => {
+    add(scopeKey('global'), record);
+    add(scopeKey('model', record.model), record);
+    if (record.client) {
+      add(scopeKey('client', record.client), record);
+    }
+  };
+
+  const findViolation = (
+    scope: LimitScope,
+    name: string | undefined,
+    limits: UsageLimits,
+    now: Date,
+  ): LimitViolation | undefined => {
+    const counter = getCounter(scopeKey(scope, name), now);
+    const checks: [keyof UsageLimits, number, Date][] = [
+      ['requestsPerMinute', counter.requests.length, new Date(counter.requests[0] + MINUTE_MS)],
+      ['tokensPerDay', counter.dayTokens, nextDay(now)],
+      ['costPerDay', counter.dayCost, nextDay(now)],
+      ['costPerMonth', counter.monthCost, nextMonth(now)],
+    ];
+    for (const [limit, used, resetsAt] of checks) {
+      const max = limits[limit];
+      if (max !== undefined && used >= max) {
+        return { scope, name, limit, max, used, resetsAt };
+      }
+    }
+    return undefined;
+  };
+
+  return {
+    load: async (records) => {
+      let count = 0;
+      for await (const item of records) {
+        record(item);
+        count++;
+      }
+      log.info({ records: count }, 'UsageLimiterLoaded');
+    },
+
+    check: ({ model, modelLimits, client, clientLimits }, now = new Date()) => {
+      const scopes: [LimitScope, string | undefined, UsageLimits | undefined][] = [
+        ['global', undefined, globalLimits],
+        ['client', client, client === undefined ? undefined : clientLimits],
+        ['model', model, modelLimits],
+      ];
+
+      for (const [scope, name, limits] of scopes) {
+        const violation = limits && findViolation(scope, name, limits, now);
+        if (violation) return violation;
+      }
+
+      for (const [scope, name] of scopes) {
+        if (scope === 'client' && name === undefined) continue;
+        getCounter(scopeKey(scope, name), now).requests.push(now.getTime());
+      }
+      return undefined;
+    },
+
+    record,
+  };
+};
+
+const LIMIT_NAMES: Record<keyof UsageLimits, string> = {
+  requestsPerMinute: 'rate',
+  tokensPerDay: 'daily token',
+  costPerDay: 'daily spending',
+  costPerMonth: 'monthly spending',
+};
+
+const formatAmount = (limit: keyof UsageLimits, amount: number) =>
+  match(limit)
+    .with('requestsPerMinute', () => `${amount} requests per minute`)
+    .with('tokensPerDay', () => `${amount.toLocaleString('en-US')} tokens`)
+    .with('costPerDay', 'costPerMonth', () => `$${amount.toFixed(2)}`)
+    .exhaustive();
+
+/** Explains a limit to the user, in place of the model's answer */
+export const describeLimitViolation = ({
+  scope,
+  name,
+  limit,
+  max,
+  used,
+  resetsAt,
+}: LimitViolation): string => {
+  const subject = scope === 'global' ? 'this proxy' : `${scope} "${name}"`;
+  const reset = resetsAt.toISOString().slice(0, 16).replace('T', ' ');
+  return (
+    `⚠️ The ${LIMIT_NAMES[limit]} limit of ${formatAmount(limit, max)} for ${subject} ` +
+    `has been reached (${formatAmount(limit, used)} used). ` +
+    `No request was sent to the model. Try again after ${reset} UTC.`
+  );
+};
@@ -1,28 +1,250 @@
 import crypto from 'crypto';
 import path from 'path';
-import fs from 'fs';
 import { z } from 'zod/v4';
 import OpenAI from 'openai';
+import { isValidPattern } from '../patterns';
+
+const MatchPattern = z
+  .string()
+  .refine(isValidPattern, 'Invalid pattern; use a glob such as `openai/*` or `/regex/`');
+
+export const RetryPolicy = z.object({
+  maxRetries: z.int().min(0).max(10).default(2),
+  initialDelayMs: z.int().min(0).default(500),
+  maxDelayMs: z.int().min(0).default(8000),
+});
+export type RetryPolicy = z.infer<typeof RetryPolicy>;
+
+/**
+ * A fallback is either the name of another configured model, or an inline OpenAI-compatible
+ * upstream. An inline upstream only takes the name, context length and capabilities of the
+ * model it belongs to; without a `baseUrl` it uses `BASE_URL` and `API_KEY`.
+ */
+export const FallbackTarget = z.union([
+  z.string(),
+  z
+    .object({
+      id: z.string(),
+      baseUrl: z.url().optional(),
+      apiKey: z.string().optional(),
+      extra: z.record(z.string(), z.any()).optional(),
+    })
+    .refine((fallback) => !fallback.baseUrl || fallback.apiKey, {
+      message: 'apiKey is required when baseUrl is set',
+      path: ['apiKey'],
+    }),
+]);
+export type FallbackTarget = z.infer<typeof FallbackTarget>;
+
+/** Prices in USD per million tokens */
+export const ModelPricing = z.object({
+  prompt: z.number().min(0),
+  completion: z.number().min(0),
+});
+export type ModelPricing = z.infer<typeof ModelPricing>;
+
+/** Caps on usage; days and months are counted in UTC */
+export const UsageLimits = z.object({
+  requestsPerMinute: z.int().min(1).optional(),
+  /** Prompt and completion tokens together */
+  tokensPerDay: z.int().min(1).optional(),
+  /** Estimated cost in USD, from the provider or the model's `pricing` */
+  costPerDay: z.number().positive().optional(),
+  costPerMonth: z.number().positive().optional(),
+});
+export type UsageLimits = z.infer<typeof UsageLimits>;
+
+export const CachePolicy = z.object({
+  ttlSeconds: z.int().min(1).default(3600),
+  /** Also cache requests that are sampled with a temperature above 0 */
+  allowNonDeterministic: z.boolean().default(false),
+  /** Also cache requests that include tools */
+  allowTools: z.boolean().default(false),
+});
+export type CachePolicy = z.infer<typeof CachePolicy>;
+
+export const ContextPolicy = z.object({
+  /**
+   * How the history is shortened when it does not fit: `drop_oldest` removes whole turns,
+   * `truncate_tool_results` first shortens large tool results, and `summarize` replaces
+   * the oldest turns with a summary written by `summaryModel`.
+   */
+  strategy: z.enum(['drop_oldest', 'truncate_tool_results', 'summarize']).default('drop_oldest'),
+  /** Tokens kept free for the response. Defaults to `max_tokens`, or 4096. */
+  reserveTokens: z.int().min(0).optional(),
+  maxToolResultTokens: z.int().min(1).default(2000),
+  /** Name of the model that writes summaries, usually a cheaper one */
+  summaryModel: z.string().optional(),
+  /** Set to false to send the history as is */
+  enabled: z.boolean().default(true),
+});
+export type ContextPolicy = z.infer<typeof ContextPolicy>;
+
+/** What Raycast is shown about the model, in Ollama's terms */
+export const ModelDetails = z.object({
+  family: z.string().optional(),
+  /** e.g. `8.0B` */
+  parameterSize: z.string().optional(),
+  /** e.g. `Q4_K_M` */
+  quantizationLevel: z.string().optional(),
+});
+export type ModelDetails = z.infer<typeof ModelDetails>;
+
+/** One answer of a mock model */
+export const MockReply = z.object({
+  reasoning: z.string().optional(),
+  content: z.string().optional(),
+  /** Arguments may be given as a string to send them exactly, e.g. as invalid JSON */
+  toolCalls: z
+    .array(
+      z.object({
+        name: z.string(),
+        arguments: z.union([z.record(z.string(), z.unknown()), z.string()]),
+      }),
+    )
+    .optional(),
+  /** Fails with this status instead of answering, to try out retries and fallbacks */
+  error: z.object({ status: z.int().min(400).max(599), message: z.string() }).optional(),
+});
+export type MockReply = z.infer<typeof MockReply>;
+
+export const MockResponse = MockReply.extend({
+  /** Tested against the last user message; matches anything if unset */
+  match: MatchPattern.optional(),
+  /** Replies to the results of the tool calls, one per round */
+  followUps: z.array(MockReply).default([]),
+});
+export type MockResponse = z.infer<typeof MockResponse>;
+
+/** Settings of `"provider": "mock"` models, which answer without calling any upstream */
+export const MockOptions = z.object({
+  /** Scripted responses; the first that matches is used, and the prompt is echoed if none does */
+  responses: z.array(MockResponse).default([]),
+  /** A JSON file with more responses, read on every request so it can be edited */
+  file: z.string().optional(),
+  /** Reasoning streamed before each echoed answer */
+  reasoning: z.string().optional(),
+  /** Where reasoning is sent: the DeepSeek or OpenRouter field, or `<think>` tags in the content */
+  reasoningFormat: z
+    .enum(['reasoning_content', 'reasoning', 'think_tags'])
+    .default('reasoning_content'),
+  /** Characters per chunk */
+  chunkSize: z.int().min(1).default(8),
+  delayMs: z.int().min(0).default(20),
+});
+export type MockOptions = z.infer<typeof MockOptions>;
+
+export const ModelType = z.enum(['chat', 'embedding']);
+export type ModelType = z.infer<typeof ModelType>;
 
 export const ModelConfig = z.object({
   name: z.string(),
   id: z.string(),
+  type: ModelType.optional(),
   contextLength: z.number(),
-  capabilities: z.array(z.enum(['vision', 'tools', 'thinking'])),
+  capabilities: z.array(z.enum(['vision', 'tools', 'thinking'])).default([]),
+  /** Output size of embedding models, passed to the provider as `dimensions` */
+  dimensions: z.int().min(1).optional(),
   temperature: z.number().min(0).max(2).optional(),
   topP: z.number().min(0).max(1).optional(),
   max_tokens: z.int().min(1).optional(),
   extra: z.record(z.string(), z.any()).optional(),
+  provider: z.enum(['openai', 'anthropic', 'mock']).optional(),
   baseUrl: z.url().optional(),
   apiKey: z.string().optional(),
+  fallbacks: z.array(FallbackTarget).optional(),
+  retry: RetryPolicy.optional(),
+  pricing: ModelPricing.optional(),
+  limits: UsageLimits.optional(),
+  cache: CachePolicy.optional(),
+  context: ContextPolicy.optional(),
+  /** Send each tool call to Raycast as soon as it is complete, instead of with the last chunk */
+  streamToolCalls: z.boolean().optional(),
+  /** How reasoning is shown in Raycast: `think` tags, `hidden`, a collapsed `quote` or a `summary` line */
+  reasoningDisplay: z.enum(['think', 'hidden', 'quote', 'summary']).optional(),
+  /** How `<think>` tags in the content are turned into reasoning; see `ThinkTagMode` */
+  thinkTags: z.enum(['auto', 'implicit', 'off']).optional(),
+  /** Instructions sent as the system prompt; may use template variables such as `{{date}}` */
+  systemPrompt: z.string().optional(),
+  /** Name of a shared system prompt in `prompts.json`, placed before `systemPrompt` */
+  promptPreset: z.string().optional(),
+  /** Whether the system prompt is sent as its own message or combined with Raycast's */
+  systemPromptMode: z.enum(['prepend', 'merge']).optional(),
+  /** Names of the MCP servers in `mcp.json` whose tools this model can use */
+  mcpServers: z.array(z.string()).optional(),
+  mock: MockOptions.optional(),
+  /** Filled in from Ollama for discovered local models */
+  details: ModelDetails.optional(),
 });
 export type ModelConfig = z.infer<typeof ModelConfig>;
 
-export function loadModels(): ModelConfig[] {
-  const filePath = path.resolve(__dirname, '../../models.json');
-  const fileContent = fs.readFileSync(filePath, 'utf8');
-  const models = JSON.parse(fileContent);
-  return z.array(ModelConfig).parse(models);
+export const DEFAULT_MODELS_PATH = path.resolve(__dirname, '../../models.json');
+
+/** Builds models from a provider's `/models` endpoint instead of listing them by hand */
+export const ModelImport = z
+  .object({
+    /** Defaults to `BASE_URL` */
+    baseUrl: z.url().optional(),
+    apiKey: z.string().optional(),
+    /** Model IDs to import, as globs (`anthropic/*`) or regular expressions (`/^openai\/gpt-5/`) */
+    include: z.array(MatchPattern).min(1),
+    exclude: z.array(MatchPattern).default([]),
+    /** Settings for every imported model, used where the provider does not report a value */
+    defaults: z.record(z.string(), z.unknown()).default({}),
+    /** Settings for single models by ID, which take precedence over the imported values */
+    overrides: z.record(z.string(), z.record(z.string(), z.unknown())).default({}),
+    refreshIntervalMinutes: z.int().min(1).default(360),
+  })
+  .refine((entry) => !entry.baseUrl || entry.apiKey, {
+    message: 'apiKey is required when baseUrl is set',
+    path: ['apiKey'],
+  });
+export type ModelImport = z.infer<typeof ModelImport>;
+
+/** A router rule applies when all of its conditions hold */
+export const RouterRule = z.object({
+  /** The model that answers matching requests */
+  model: z.string(),
+  hasImages: z.boolean().optional(),
+  /** Whether the request offers tools to the model */
+  hasTools: z.boolean().optional(),
+  minPromptTokens: z.int().min(0).optional(),
+  maxPromptTokens: z.int().min(0).optional(),
+  /** Tested against the system prompt and the last user message */
+  promptMatches: MatchPattern.optional(),
+});
+export type RouterRule = z.infer<typeof RouterRule>;
+
+/** A model that passes each request on to one of the configured models, by the first matching rule */
+export const RouterModel = z.object({
+  name: z.string(),
+  router: z.object({
+    /** The model for requests that match no rule */
+    default: z.string(),
+    rules: z.array(RouterRule).default([]),
+  }),
+});
+export type RouterModel = z.infer<typeof RouterModel>;
+
+export const CatalogEntry = z.union([z.object({ import: ModelImport }), RouterModel, ModelConfig]);
+export type CatalogEntry = z.infer<typeof CatalogEntry>;
+
+export interface ParsedCatalog {
+  models: ModelConfig[];
+  imports: ModelImport[];
+  routers: RouterModel[];
+}
+
+/** Splits the entries of `models.json` into models, imports and routers */
+export function parseModels(entries: unknown): ParsedCatalog {
+  const parsed = z.array(CatalogEntry).parse(entries);
+  return {
+    models: parsed.filter(
+      (entry): entry is ModelConfig => !('import' in entry) && !('router' in entry),
+    ),
+    imports: parsed.flatMap((entry) => ('import' in entry ? [entry.import] : [])),
+    routers: parsed.filter((entry): entry is RouterModel => 'router' in entry),
+  };
 }
 
 export const findModelConfig = (
@@ -32,112 +254,76 @@ export const findModelConfig = (
   return models.find((config) => config.name === modelName);
 };
 
+export const getModelType = (config: ModelConfig): ModelType => config.type ?? 'chat';
+
 function generateDigest(modelName: string): string {
   return crypto.createHash('sha256').update(modelName).digest('hex');
 }
 
-/**
- * 获取本地 Ollama 服务的模型列表
- */
-export const fetchLocalOllamaModels = async (): Promise<ModelConfig[]> => {
-  try {
-    const response = await fetch('http://localhost:11434/api/tags');
-    if (!response.ok) {
-      console.warn('Failed to fetch local Ollama models:', response.statusText);
-      return [];
-    }
-
-    interface OllamaModel {
-      name: string;
-      model?: string;
-      modified_at?: string;
-      size?: number;
-      digest?: string;
-    }
-
-    interface OllamaResponse {
-      models?: OllamaModel[];
-    }
-
-    const data = (await response.json()) as OllamaResponse;
-    const localModels: ModelConfig[] =
-      data.models?.map((model: OllamaModel) => ({
-        name: `${model.name} [Local]`,
-        id: model.name,
-        contextLength: 4096, // Default context length for local models
-        capabilities: ['tools'], // Default capabilities
-        temperature: 0.7,
-        baseUrl: 'http://localhost:11434/v1',
-        apiKey: 'ollama', // Dummy API key for local Ollama
-      })) || [];
-
-    return localModels;
-  } catch (error) {
-    console.warn('Error fetching local Ollama models:', error);
-    return [];
-  }
+const getModelFamily = (config: ModelConfig): string =>
+  config.details?.family ?? (getModelType(config) === 'embedding' ? 'bert' : 'llama');
+
+const makeOllamaDetails = (config: ModelConfig) => {
+  const family = getModelFamily(config);
+  return {
+    parent_model: '',
+    format: 'gguf',
+    family,
+    families: [family],
+    parameter_size: config.details?.parameterSize ?? '7B',
+    quantization_level: config.details?.quantizationLevel ?? 'Q4_K_M',
+  };
 };
 
-export const generateModelsList = async (models: ModelConfig[]) => {
-  // 获取本地 Ollama 模型
-  const localModels = await fetchLocalOllamaModels();
+/** `models` includes the discovered local models */
+export const generateModelsList = (
+  models: ModelConfig[],
+  include: (config: ModelConfig) => boolean = () => true,
+) => {
+  const allModels = models.filter(include);
 
-  // 合并配置文件中的模型和本地 Ollama 模型
-  const allModels = [...models, ...localModels];
+  // Chat models first, embedding models after them
+  const chatModels = allModels.filter((config) => getModelType(config) === 'chat');
+  const embeddingModels = allModels.filter((config) => getModelType(config) === 'embedding');
 
   return {
-    models: allModels.map((config) => ({
+    models: [...chatModels, ...embeddingModels].map((config) => ({
       name: config.name,
       model: config.id,
       modified_at: new Date().toISOString(),
       size: 500000000, // Fixed size
       digest: generateDigest(config.id),
-      details: {
-        parent_model: '',
-        format: 'gguf',
-        family: 'llama',
-        families: ['llama'],
-        parameter_size: '7B',
-        quantization_level: 'Q4_K_M',
-      },
+      details: makeOllamaDetails(config),
     })),
   };
 };
 
-export const generateModelInfo = async (models: ModelConfig[], modelName: string) => {
-  // 获取本地 Ollama 模型
-  const localModels = await fetchLocalOllamaModels();
-
-  // 合并配置文件中的模型和本地 Ollama 模型
-  const allModels = [...models, ...localModels];
-
-  const config = findModelConfig(allModels, modelName);
+export const generateModelInfo = (models: ModelConfig[], modelName: string) => {
+  const config = findModelConfig(models, modelName);
 
   if (!config) {
     throw new Error(`Model ${modelName} not found`);
   }
 
+  const family = getModelFamily(config);
+  const isEmbedding = getModelType(config) === 'embedding';
+
   return {
     modelfile: `FROM ${config.name}`,
     parameters: 'stop "<|eot_id|>"',
     template: '{{ .Prompt }}',
-    details: {
-      parent_model: '',
-      format: 'gguf',
-      family: 'llama',
-      families: ['llama'],
-      parameter_size: '7B',
-      quantization_level: 'Q4_K_M',
-    },
+    details: makeOllamaDetails(config),
     model_info: {
-      'general.architecture': 'llama',
+      'general.architecture': family,
       'general.file_type': 2,
       'general.parameter_count': 7000000000,
-      'llama.context_length': config.contextLength,
-      'llama.embedding_length': 4096,
+      [`${family}.context_length`]: config.contextLength,
+      [`${family}.embedding_length`]: config.dimensions ?? 4096,
       'tokenizer.ggml.model': 'gpt2',
     },
-    capabilities: ['completion', ...config.capabilities],
+    // Like Ollama, embedding models report `embedding` instead of `completion`,
+    // which keeps them out of chat model pickers
+    capabilities: isEmbedding ? ['embedding'] : ['completion', ...config.capabilities],
   };
 };
 
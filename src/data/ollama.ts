@@ -0,0 +1,226 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from 'pino';
+import { z } from 'zod/v4';
+import { globToRegExp } from '../patterns';
+import { ModelConfig } from './models';
+
+export const DEFAULT_OLLAMA_PATH = path.resolve(__dirname, '../../ollama.json');
+
+const REQUEST_TIMEOUT_MS = 5000;
+// For models that do not report their context length
+const DEFAULT_CONTEXT_LENGTH = 4096;
+
+export const OllamaHost = z.object({
+  /** Address of the Ollama server, with or without the `/v1` suffix */
+  url: z.url(),
+  /** Appended to the model names shown in Raycast, e.g. `llama3.2 [Local]` */
+  label: z.string().default('Local'),
+  /** Patterns of the Ollama model names to list, where `*` matches anything. All if unset. */
+  include: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).default([]),
+  /**
+   * Model settings applied to every model of this host, such as `temperature`. They are
+   * checked here but kept as written, so the defaults of unset fields do not override
+   * what the host reports.
+   */
+  overrides: z
+    .record(z.string(), z.unknown())
+    .default({})
+    .superRefine((overrides, ctx) => {
+      for (const issue of ModelConfig.partial().safeParse(overrides).error?.issues ?? []) {
+        ctx.addIssue({ code: 'custom', message: issue.message, path: issue.path });
+      }
+    }),
+});
+export type OllamaHost = z.infer<typeof OllamaHost>;
+
+export const OllamaDiscoveryConfig = z.object({
+  hosts: z.array(OllamaHost),
+  refreshIntervalSeconds: z.int().min(5).default(60),
+});
+export type OllamaDiscoveryConfig = z.infer<typeof OllamaDiscoveryConfig>;
+
+export interface OllamaDiscovery {
+  /** The models found by the last refresh, without waiting for the hosts */
+  getModels(): ModelConfig[];
+  refresh(): Promise<void>;
+  start(): void;
+  stop(): void;
+}
+
+interface OllamaTagsResponse {
+  models?: { name: string; digest?: string }[];
+}
+
+interface OllamaShowResponse {
+  parameters?: string;
+  details?: { family?: string; parameter_size?: string; quantization_level?: string };
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+}
+
+/**
+ * Reads the Ollama hosts from `filePath`. Without the file, the one at `OLLAMA_BASE_URL`
+ * is used with the default settings.
+ */
+export const loadOllamaConfig = (filePath: string, defaultUrl: string): OllamaDiscoveryConfig => {
+  if (!fs.existsSync(filePath)) {
+    return OllamaDiscoveryConfig.parse({ hosts: [{ url: defaultUrl }] });
+  }
+  return OllamaDiscoveryConfig.parse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+};
+
+const getHostRoot = (url: string) => url.replace(/\/+$/, '').replace(/\/v1$/, '');
+
+const isListed = (host: OllamaHost, name: string) =>
+  (!host.include || host.include.some((pattern) => globToRegExp(pattern).test(name))) &&
+  !host.exclude.some((pattern) => globToRegExp(pattern).test(name));
+
+// `num_ctx` in the Modelfile limits the context the model is run with, which is often
+// far less than it was trained for
+const getContextLength = (show: OllamaShowResponse): number => {
+  const numCtx = show.parameters?.match(/^num_ctx\s+(\d+)/m);
+  if (numCtx) return Number(numCtx[1]);
+  const architecture = show.model_info?.['general.architecture'];
+  const trained = show.model_info?.[`${architecture}.context_length`];
+  return typeof trained === 'number' ? trained : DEFAULT_CONTEXT_LENGTH;
+};
+
+const toModelConfig = (host: OllamaHost, name: string, show: OllamaShowResponse): ModelConfig => {
+  const capabilities = show.capabilities ?? [];
+  const architecture = show.model_info?.['general.architecture'];
+  const embeddingLength = show.model_info?.[`${architecture}.embedding_length`];
+
+  return ModelConfig.parse({
+    name: `${name} [${host.label}]`,
+    id: name,
+    type: capabilities.includes('embedding') ? 'embedding' : 'chat',
+    contextLength: getContextLength(show),
+    capabilities: (['vision', 'tools', 'thinking'] as const).filter((capability) =>
+      capabilities.includes(capability),
+    ),
+    ...(capabilities.includes('embedding') &&
+      typeof embeddingLength === 'number' && { dimensions: embeddingLength }),
+    temperature: 0.7,
+    baseUrl: `${getHostRoot(host.url)}/v1`,
+    apiKey: 'ollama', // Ollama ignores the key, but the OpenAI client requires one
+    details: {
+      family: show.details?.family,
+      parameterSize: show.details?.parameter_size,
+      quantizationLevel: show.details?.quantization_level,
+    },
+    ...host.overrides,
+  });
+};
+
+const hasSameModels = (a: ModelConfig[], b: ModelConfig[]) => {
+  const ids = new Set(a.map((model) => model.id));
+  return a.length === b.length && b.every((model) => ids.has(model.id));
+};
+
+const fetchJson = async <T>(url: string, body?: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  return (await response.json()) as T;
+};
+
+/**
+ * Polls the Ollama hosts in the background so that listing and resolving models never
+ * waits for them. Model metadata comes from `/api/show` and is kept until the model's
+ * digest changes.
+ */
+export const makeOllamaDiscovery = (
+  { hosts, refreshIntervalSeconds }: OllamaDiscoveryConfig,
+  logger: Logger,
+): OllamaDiscovery => {
+  const log = logger.child({ category: 'OllamaDiscovery' });
+  const modelsByHost = new Map<string, ModelConfig[]>();
+  // Keyed by host, model name and digest
+  const shown = new Map<string, ModelConfig>();
+  const reachable = new Map<string, boolean>();
+  let current: ModelConfig[] = [];
+  let timer: NodeJS.Timeout | undefined = undefined;
+  let refreshing: Promise<void> | undefined = undefined;
+
+  const discoverHost = async (host: OllamaHost): Promise<ModelConfig[]> => {
+    const root = getHostRoot(host.url);
+    const { models = [] } = await fetchJson<OllamaTagsResponse>(`${root}/api/tags`);
+
+    const configs: ModelConfig[] = [];
+    for (const { name, digest } of models) {
+      if (!isListed(host, name)) continue;
+
+      const key = `${root}\n${name}\n${digest}`;
+      let config = shown.get(key);
+      if (!config) {
+        try {
+          const show = await fetchJson<OllamaShowResponse>(`${root}/api/show`, { model: name });
+          config = toModelConfig(host, name, show);
+          shown.set(key, config);
+        } catch (error) {
+          log.warn({ err: error, host: root, model: name }, 'OllamaModelShowFailed');
+          continue;
+        }
+      }
+      configs.push(config);
+    }
+    return configs;
+  };
+
+  const refreshHost = async (host: OllamaHost) => {
+    const root = getHostRoot(host.url);
+    try {
+      const models = await discoverHost(host);
+      const previous = modelsByHost.get(root);
+      modelsByHost.set(root, models);
+      if (!reachable.get(root) || !hasSameModels(previous ?? [], models)) {
+        log.info({ host: root, models: models.map((model) => model.id) }, 'OllamaModelsDiscovered');
+      }
+      reachable.set(root, true);
+    } catch (error) {
+      // Models of an unreachable host cannot be served, so they are not listed either
+      modelsByHost.set(root, []);
+      if (reachable.get(root) !== false) {
+        log.warn({ err: error, host: root }, 'OllamaHostUnavailable');
+      }
+      reachable.set(root, false);
+    }
+  };
+
+  const refresh = () => {
+    refreshing ??= Promise.all(hosts.map(refreshHost))
+      .then(() => {
+        current = hosts.flatMap((host) => modelsByHost.get(getHostRoot(host.url)) ?? []);
+      })
+      .finally(() => {
+        refreshing = undefined;
+      });
+    return refreshing;
+  };
+
+  return {
+    getModels: () => current,
+
+    refresh,
+
+    start: () => {
+      if (timer || hosts.length === 0) return;
+      void refresh();
+      timer = setInterval(() => void refresh(), refreshIntervalSeconds * 1000);
+      timer.unref();
+    },
+
+    stop: () => {
+      clearInterval(timer);
+      timer = undefined;
+    },
+  };
+};
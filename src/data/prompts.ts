@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from 'pino';
+import { z } from 'zod/v4';
+import { ModelConfig } from './models';
+
+export const DEFAULT_PROMPTS_PATH = path.resolve(__dirname, '../../prompts.json');
+
+/** Named system prompts that models can share through `promptPreset` */
+export const PromptPresets = z.record(z.string(), z.string());
+export type PromptPresets = z.infer<typeof PromptPresets>;
+
+export interface PromptLibrary {
+  get(name: string): string | undefined;
+  watch(): void;
+}
+
+export interface PromptVariables {
+  /** The model name shown in Raycast */
+  model: string;
+  /** A BCP 47 locale such as `en-US`, looked up only if the prompt uses it */
+  locale: () => string;
+  timeZone: string;
+  now?: Date;
+}
+
+const WATCH_INTERVAL_MS = 1000;
+
+/**
+ * Keeps the prompt presets in memory. The file is optional and reloaded when it changes;
+ * an invalid edit is logged and the previous presets stay active.
+ */
+export const makePromptLibrary = (filePath: string, logger: Logger): PromptLibrary => {
+  const log = logger.child({ category: 'PromptLibrary' });
+
+  const readFromDisk = (): PromptPresets => {
+    if (!fs.existsSync(filePath)) return {};
+    return PromptPresets.parse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  };
+
+  let presets: PromptPresets = {};
+  try {
+    presets = readFromDisk();
+  } catch (error) {
+    log.error(error, 'PromptPresetsInvalid');
+  }
+  let watching = false;
+
+  return {
+    get: (name) => presets[name],
+
+    watch: () => {
+      if (watching) return;
+      watching = true;
+      fs.watchFile(filePath, { interval: WATCH_INTERVAL_MS }, (curr, prev) => {
+        if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) {
+          return;
+        }
+        try {
+          presets = readFromDisk();
+          log.info({ count: Object.keys(presets).length }, 'PromptPresetsReloaded');
+        } catch (error) {
+          log.error(error, 'PromptPresetsInvalid');
+        }
+      });
+    },
+  };
+};
+
+/**
+ * Replaces `{{name}}` placeholders. Unknown placeholders are left as they are, so
+ * prompts can still contain literal double braces.
+ */
+export const renderPromptTemplate = (
+  template: string,
+  { model, locale, timeZone, now = new Date() }: PromptVariables,
+): string => {
+  const format = (options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(locale(), { timeZone, ...options }).format(now);
+
+  // Computed on use, so a prompt without dates never needs the locale
+  const variables: Record<string, () => string> = {
+    date: () => format({ dateStyle: 'full' }),
+    time: () => format({ timeStyle: 'short' }),
+    datetime: () => format({ dateStyle: 'full', timeStyle: 'short' }),
+    isoDate: () => now.toISOString().slice(0, 10),
+    weekday: () => format({ weekday: 'long' }),
+    timezone: () => timeZone,
+    locale,
+    model: () => model,
+  };
+
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.hasOwn(variables, name) ? variables[name]() : placeholder,
+  );
+};
+
+/**
+ * Builds the model's system prompt from its preset and its own `systemPrompt`, in that
+ * order. Returns undefined if the model has neither.
+ */
+export const resolveSystemPrompt = (
+  prompts: PromptLibrary,
+  config: ModelConfig,
+  variables: PromptVariables,
+  logger: Logger,
+): string | undefined => {
+  const parts: string[] = [];
+
+  if (config.promptPreset) {
+    const preset = prompts.get(config.promptPreset);
+    if (preset === undefined) {
+      logger.warn({ model: config.name, preset: config.promptPreset }, 'PromptPresetNotFound');
+    } else {
+      parts.push(preset);
+    }
+  }
+  if (config.systemPrompt) {
+    parts.push(config.systemPrompt);
+  }
+
+  if (parts.length === 0) return undefined;
+  return renderPromptTemplate(parts.join('\n\n'), variables);
+};
@@ -0,0 +1,225 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { CompletionUsage } from 'openai/resources';
+import { Logger } from 'pino';
+import { z } from 'zod/v4';
+import { ModelConfig } from './models';
+
+export const DEFAULT_USAGE_PATH = path.resolve(__dirname, '../../data/usage.jsonl');
+
+export interface UsageRecord {
+  timestamp: string;
+  requestId?: string;
+  /** The authenticated client, when authentication is enabled */
+  client?: string;
+  /** The model that served the request, after routing, whose limits the usage counts towards */
+  model: string;
+  /** The name the client asked for, when it differs from `model`, such as a router */
+  requestedModel?: string;
+  upstream: string;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  latencyMs: number;
+  /** Estimated cost in USD, or null when the model has no pricing configured */
+  cost: number | null;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  cost: number;
+}
+
+export interface UsageReport {
+  from?: string;
+  to?: string;
+  total: UsageTotals;
+  byDay: ({ day: string } & UsageTotals)[];
+  byModel: ({ model: string } & UsageTotals)[];
+}
+
+export interface UsageReportOptions {
+  /** Inclusive start day (YYYY-MM-DD, UTC) */
+  from?: string;
+  /** Inclusive end day (YYYY-MM-DD, UTC) */
+  to?: string;
+  model?: string;
+  /** Only the requests of this client */
+  client?: string;
+}
+
+const Day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+/** The query parameters of the usage report endpoints */
+export const UsageQuery = z.object({
+  from: Day.optional(),
+  to: Day.optional(),
+  model: z.string().optional(),
+  client: z.string().optional(),
+});
+
+export interface UsageLedger {
+  record(record: UsageRecord): void;
+  /** Reads back the records written since `since` (an ISO timestamp), oldest first */
+  records(since?: string): AsyncGenerator<UsageRecord>;
+  report(options?: UsageReportOptions): Promise<UsageReport>;
+  /** Resolves once every pending record has been written */
+  flush(): Promise<void>;
+}
+
+// OpenRouter reports the actual cost when usage accounting is enabled
+type ProviderUsage = CompletionUsage & { cost?: number };
+
+/**
+ * Prefers the cost reported by the provider and falls back to the per-million-token
+ * prices configured for the model.
+ */
+export const estimateCost = (config: ModelConfig, usage: ProviderUsage): number | null => {
+  if (typeof usage.cost === 'number') {
+    return usage.cost;
+  }
+  if (!config.pricing) {
+    return null;
+  }
+  const { prompt, completion } = config.pricing;
+  return (usage.prompt_tokens * prompt + usage.completion_tokens * completion) / 1_000_000;
+};
+
+/**
+ * `model` is the model the request was resolved to and `requestedModel` the name the client
+ * asked for; `config` is the upstream that actually answered, which differs when a fallback
+ * was used.
+ */
+export const makeUsageRecord = (
+  model: string,
+  config: ModelConfig,
+  usage: CompletionUsage,
+  latencyMs: number,
+  requestId?: string,
+  client?: string,
+  requestedModel?: string,
+): UsageRecord => ({
+  timestamp: new Date().toISOString(),
+  requestId,
+  client,
+  model,
+  ...(requestedModel !== undefined && requestedModel !== model && { requestedModel }),
+  upstream: config.id,
+  promptTokens: usage.prompt_tokens,
+  completionTokens: usage.completion_tokens,
+  reasoningTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+  latencyMs,
+  cost: estimateCost(config, usage),
+});
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  reasoningTokens: 0,
+  cost: 0,
+});
+
+const addToTotals = (totals: UsageTotals, record: UsageRecord) => {
+  totals.requests += 1;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.reasoningTokens += record.reasoningTokens;
+  totals.cost += record.cost ?? 0;
+};
+
+const totalsFor = (groups: Map<string, UsageTotals>, key: string): UsageTotals => {
+  let totals = groups.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    groups.set(key, totals);
+  }
+  return totals;
+};
+
+/**
+ * Appends usage records to a JSONL file. Reports are computed by scanning the file,
+ * which keeps the ledger append-only and easy to inspect or rotate by hand.
+ */
+export const makeUsageLedger = (filePath: string, logger: Logger): UsageLedger => {
+  const log = logger.child({ category: 'UsageLedger' });
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  // Writes are chained so records are never interleaved
+  let pending: Promise<void> = Promise.resolve();
+
+  const readRecords = async function* (): AsyncGenerator<UsageRecord> {
+    if (!fs.existsSync(filePath)) return;
+    const lines = readline.createInterface({
+      input: fs.createReadStream(filePath, 'utf8'),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line) as UsageRecord;
+      } catch {
+        log.warn({ line }, 'UsageRecordInvalid');
+      }
+    }
+  };
+
+  return {
+    record: (record) => {
+      pending = pending
+        .then(() => fs.promises.appendFile(filePath, `${JSON.stringify(record)}\n`, 'utf8'))
+        .catch((error) => {
+          log.error(error, 'UsageRecordWriteFailed');
+        });
+    },
+
+    records: async function* (since) {
+      await pending;
+      for await (const record of readRecords()) {
+        if (!since || record.timestamp >= since) yield record;
+      }
+    },
+
+    report: async ({ from, to, model, client } = {}) => {
+      await pending;
+
+      const total = emptyTotals();
+      const byDay = new Map<string, UsageTotals>();
+      const byModel = new Map<string, UsageTotals>();
+
+      for await (const record of readRecords()) {
+        const day = record.timestamp.slice(0, 10);
+        if (
+          (from && day < from) ||
+          (to && day > to) ||
+          (model && record.model !== model && record.requestedModel !== model) ||
+          (client && record.client !== client)
+        ) {
+          continue;
+        }
+
+        addToTotals(total, record);
+        addToTotals(totalsFor(byDay, day), record);
+        addToTotals(totalsFor(byModel, record.model), record);
+      }
+
+      return {
+        from,
+        to,
+        total,
+        byDay: [...byDay.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([day, totals]) => ({ day, ...totals })),
+        byModel: [...byModel.entries()]
+          .sort(([, a], [, b]) => b.cost - a.cost || b.requests - a.requests)
+          .map(([model, totals]) => ({ model, ...totals })),
+      };
+    },
+
+    flush: () => pending,
+  };
+};
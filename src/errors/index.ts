@@ -1,11 +1,14 @@
 export class HttpError extends Error {
   readonly status: number;
   readonly message: string;
+  /** Sent along with the error response, such as `Retry-After` */
+  readonly headers?: Record<string, string>;
 
-  constructor(status: number, message: string) {
+  constructor(status: number, message: string, headers?: Record<string, string>) {
     super(message);
     this.name = 'HttpError';
     this.status = status;
     this.message = message;
+    this.headers = headers;
   }
 }
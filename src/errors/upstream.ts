@@ -0,0 +1,131 @@
+import OpenAI from 'openai';
+
+/** What OpenRouter adds to errors that come from the provider behind it */
+interface OpenRouterErrorMetadata {
+  provider_name?: string;
+  /** The provider's own error, as a string or an object */
+  raw?: unknown;
+  /** Set on moderation errors */
+  reasons?: string[];
+  flagged_input?: string;
+}
+
+interface UpstreamErrorBody {
+  /** OpenRouter puts the HTTP status here for errors sent inside a stream */
+  code?: number | string;
+  message?: string;
+  metadata?: OpenRouterErrorMetadata;
+}
+
+export interface UpstreamErrorDescription {
+  /** The status to answer the client with */
+  status: number;
+  message: string;
+}
+
+const CONTEXT_OVERFLOW =
+  /context[ _-]?(length|window)|maximum context|too many tokens|prompt is too long|reduce the length/i;
+
+const getRawMessage = (raw: unknown): string | undefined => {
+  if (typeof raw === 'string') {
+    try {
+      return getRawMessage(JSON.parse(raw)) ?? raw;
+    } catch {
+      return raw;
+    }
+  }
+  if (raw && typeof raw === 'object') {
+    const { message, error } = raw as { message?: unknown; error?: unknown };
+    if (typeof message === 'string') return message;
+    if (typeof error === 'string') return error;
+    return getRawMessage(error);
+  }
+  return undefined;
+};
+
+/**
+ * Explains an upstream failure to the user, with the status the proxy should answer
+ * with. Errors the provider made are reported as `502`, so clients do not mistake them
+ * for problems with their own request. Returns undefined for errors that did not come
+ * from an upstream.
+ */
+export const describeUpstreamError = (error: unknown): UpstreamErrorDescription | undefined => {
+  if (!(error instanceof OpenAI.APIError) || error instanceof OpenAI.APIUserAbortError) {
+    return undefined;
+  }
+
+  const body = (error.error ?? {}) as UpstreamErrorBody;
+  const status = error.status ?? (typeof body.code === 'number' ? body.code : undefined);
+  const metadata = body.metadata ?? {};
+  const detail = getRawMessage(metadata.raw) ?? body.message ?? error.message;
+  const provider = metadata.provider_name ? ` (${metadata.provider_name})` : '';
+
+  if (error instanceof OpenAI.APIConnectionTimeoutError || status === 408) {
+    return { status: 504, message: `The provider${provider} did not respond in time.` };
+  }
+  if (metadata.reasons?.length || metadata.flagged_input) {
+    const reasons = metadata.reasons?.length ? `: ${metadata.reasons.join(', ')}` : '';
+    const input = metadata.flagged_input ? ` Flagged text: "${metadata.flagged_input}"` : '';
+    return {
+      status: 403,
+      message: `The request was flagged by the provider's moderation${provider}${reasons}.${input}`,
+    };
+  }
+  if (CONTEXT_OVERFLOW.test(detail)) {
+    return {
+      status: 400,
+      message:
+        `The conversation is too long for the model's context window${provider}. ` +
+        `Start a new chat or remove some attachments. (${detail})`,
+    };
+  }
+
+  switch (status) {
+    case undefined:
+      return {
+        status: 502,
+        message: `The connection to the provider${provider} failed: ${detail}`,
+      };
+    case 400:
+    case 422:
+      return { status: 400, message: `The provider${provider} rejected the request: ${detail}` };
+    case 401:
+      return {
+        status: 502,
+        message: `The provider${provider} rejected the API key. Check \`API_KEY\` or the model's \`apiKey\`.`,
+      };
+    case 402:
+      return {
+        status: 402,
+        message: `The provider account is out of credits${provider}: ${detail}`,
+      };
+    case 403:
+      return { status: 403, message: `The provider${provider} refused the request: ${detail}` };
+    case 404:
+      return {
+        status: 404,
+        message: `The provider${provider} does not know the model. Check its \`id\`. (${detail})`,
+      };
+    case 413:
+      return { status: 413, message: `The request is too large for the provider${provider}.` };
+    case 429:
+      return {
+        status: 429,
+        message: `The provider${provider} is rate limiting requests. Try again in a moment. (${detail})`,
+      };
+    case 503:
+      return {
+        status: 503,
+        message: `The provider${provider} is overloaded or unavailable. Try again in a moment. (${detail})`,
+      };
+    default:
+      return { status: 502, message: `The provider${provider} failed with ${status}: ${detail}` };
+  }
+};
+
+/** The message for the user, for any error */
+export const describeError = (error: unknown): string =>
+  describeUpstreamError(error)?.message ?? (error instanceof Error ? error.message : String(error));
+
+/** Tells about an error in a response that is already streaming */
+export const formatErrorNotice = (message: string) => `\n\n> ⚠️ ${message}\n`;
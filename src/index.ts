@@ -1,20 +1,106 @@
 import OpenAI from 'openai';
 import { makeApp } from './app';
 import { getConfig } from './config';
-import { loadModels } from './data/models';
+import { makeModelCatalog } from './data/catalog';
+import { DEFAULT_MODELS_PATH } from './data/models';
+import { DEFAULT_IMPORT_CACHE_PATH, makeModelImporter } from './data/imports';
+import { DEFAULT_USAGE_PATH, makeUsageLedger } from './data/usage';
+import { getLimitWindowStart, makeUsageLimiter } from './data/limits';
+import { makeLruCache, makeResponseCache } from './data/cache';
+import { DEFAULT_PROMPTS_PATH, makePromptLibrary } from './data/prompts';
+import { DEFAULT_OLLAMA_PATH, loadOllamaConfig, makeOllamaDiscovery } from './data/ollama';
 import { makeLogger } from './logger';
+import { makeMetrics } from './metrics';
 import { makeMiddleware } from './middleware';
+import { DEFAULT_AUTH_PATH, loadAuthConfig } from './middleware/auth';
+import { makeRecorder, makeRedactor } from './recording';
+import { DEFAULT_MCP_PATH, makeMcpManager } from './tools/mcp';
+import { makeSearxngBackend } from './tools/search';
 
 async function main() {
   const config = getConfig();
-  const models = loadModels();
   const logger = makeLogger();
-  const middleware = makeMiddleware(logger);
+  const importer = makeModelImporter(
+    { baseUrl: config.baseUrl, apiKey: config.apiKey },
+    config.importCachePath ?? DEFAULT_IMPORT_CACHE_PATH,
+    logger,
+  );
+  const catalog = makeModelCatalog(config.modelsPath ?? DEFAULT_MODELS_PATH, logger, importer);
+  catalog.watch();
+  importer.start();
+  const ollama = makeOllamaDiscovery(
+    loadOllamaConfig(config.ollamaPath ?? DEFAULT_OLLAMA_PATH, config.ollamaBaseUrl),
+    logger,
+  );
+  ollama.start();
+  const prompts = makePromptLibrary(config.promptsPath ?? DEFAULT_PROMPTS_PATH, logger);
+  prompts.watch();
+  const ledger = makeUsageLedger(config.usagePath ?? DEFAULT_USAGE_PATH, logger);
+  const limiter = makeUsageLimiter(
+    {
+      requestsPerMinute: config.limitRequestsPerMinute,
+      tokensPerDay: config.limitTokensPerDay,
+      costPerDay: config.limitCostPerDay,
+      costPerMonth: config.limitCostPerMonth,
+    },
+    logger,
+  );
+  await limiter.load(ledger.records(getLimitWindowStart()));
+  const cache = makeResponseCache({
+    maxEntries: config.cacheMaxEntries,
+    maxBytes: config.cacheMaxBytes,
+  });
+  const auth = loadAuthConfig(config.authPath ?? DEFAULT_AUTH_PATH);
+  logger.info(
+    { clients: auth?.clients.length ?? 0, allowedNetworks: auth?.allowedNetworks ?? [] },
+    'AuthConfigLoaded',
+  );
+  const middleware = makeMiddleware(logger, config, auth);
   const openai = new OpenAI({
     baseURL: config.baseUrl,
     apiKey: config.apiKey,
   });
-  const app = makeApp({ config, middleware, models, openai });
+  const mcp = makeMcpManager(config.mcpPath ?? DEFAULT_MCP_PATH, logger);
+  const searchBackend = config.searxngUrl ? makeSearxngBackend(config.searxngUrl) : undefined;
+  const recorder = config.recordDir
+    ? makeRecorder(
+        {
+          dir: config.recordDir,
+          redact: makeRedactor({
+            images: config.recordImages,
+            patterns: config.recordRedact ? [new RegExp(config.recordRedact, 'g')] : [],
+            secrets: () => [
+              config.apiKey,
+              config.anthropicApiKey ?? '',
+              config.adminToken ?? '',
+              config.metricsToken ?? '',
+              ...(auth?.clients.map((client) => client.token) ?? []),
+              ...catalog.getModels().map((model) => model.apiKey ?? ''),
+            ],
+          }),
+        },
+        logger,
+      )
+    : undefined;
+  if (config.recordDir) {
+    logger.warn({ dir: config.recordDir }, 'RecordingEnabled');
+  }
+  const app = makeApp({
+    config,
+    middleware,
+    catalog,
+    ollama,
+    prompts,
+    ledger,
+    limiter,
+    cache,
+    summaries: makeLruCache<string>({ maxEntries: 100, maxBytes: 1024 * 1024 }),
+    metrics: makeMetrics(),
+    openai,
+    mcp,
+    searchBackend,
+    recorder,
+  });
 
   app.listen(config.port, () => {
     logger.info(`Server is up on port ${config.port}`);
@@ -0,0 +1,92 @@
+interface ScanResult {
+  /** End of the first complete top-level value, if the text contains one */
+  end?: number;
+  /** Closing brackets still open at the end of the text, innermost last */
+  open: string[];
+  inString: boolean;
+}
+
+const scan = (text: string): ScanResult => {
+  const open: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      open.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      open.pop();
+      if (open.length === 0) {
+        return { end: i + 1, open, inString };
+      }
+    }
+  }
+
+  return { open, inString };
+};
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/** Closes any open brackets of text that ends outside a string */
+const closeTruncated = (text: string): string => {
+  const { open } = scan(text);
+  return text.replace(/,\s*$/, '') + [...open].reverse().join('');
+};
+
+// A document cut off after one of these may be closed as it is. A number could be missing
+// digits and a string characters, so a document cut off inside one is not repaired.
+const COMPLETE_VALUE_END = /(["}\]]|\btrue|\bfalse|\bnull)\s*$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses tool call arguments leniently. Besides valid JSON, this accepts arguments wrapped
+ * in a code fence, followed by trailing garbage or a repeat of themselves, and arguments
+ * cut off right after a complete value, which are closed there. Returns undefined if the
+ * object cannot be recovered without dropping part of it.
+ */
+export const parseToolArguments = (raw: string): Record<string, unknown> | undefined => {
+  const text = raw
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+  if (!text) return {};
+
+  const parsed = tryParse(text);
+  if (parsed !== undefined) {
+    return isObject(parsed) ? parsed : undefined;
+  }
+
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+  const body = text.slice(start);
+
+  // Trailing garbage and concatenated objects: keep the first complete object
+  const { end, inString } = scan(body);
+  if (end !== undefined) {
+    const first = tryParse(body.slice(0, end));
+    return isObject(first) ? first : undefined;
+  }
+
+  // Truncated: close what is open. Cutting back to an earlier value would hand the tool
+  // arguments with keys or values missing, so a half-written value is not repaired.
+  if (inString || !COMPLETE_VALUE_END.test(body.replace(/,\s*$/, ''))) return undefined;
+  const repaired = tryParse(closeTruncated(body));
+  return isObject(repaired) ? repaired : undefined;
+};
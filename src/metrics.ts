@@ -0,0 +1,282 @@
+import OpenAI from 'openai';
+import { ChatCompletionChunk, CompletionUsage } from 'openai/resources';
+import { ChatProvider } from './providers';
+
+type Labels = Record<string, string>;
+
+interface Series<T> {
+  labels: Labels;
+  value: T;
+}
+
+interface HistogramValue {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+interface Metric {
+  render(): string[];
+}
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+};
+
+const makeSeries = <T>(initial: () => T) => {
+  const series = new Map<string, Series<T>>();
+  return {
+    get: (labels: Labels): Series<T> => {
+      const key = formatLabels(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels, value: initial() };
+        series.set(key, entry);
+      }
+      return entry;
+    },
+    values: () => [...series.values()],
+  };
+};
+
+const makeHeader = (name: string, help: string, type: string) => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} ${type}`,
+];
+
+const makeCounter = (name: string, help: string) => {
+  const series = makeSeries(() => 0);
+  return {
+    inc: (labels: Labels, value = 1) => {
+      series.get(labels).value += value;
+    },
+    render: () => [
+      ...makeHeader(name, help, 'counter'),
+      ...series.values().map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+    ],
+  };
+};
+
+const makeGauge = (name: string, help: string) => {
+  const series = makeSeries(() => 0);
+  return {
+    inc: (labels: Labels) => {
+      series.get(labels).value++;
+    },
+    dec: (labels: Labels) => {
+      series.get(labels).value--;
+    },
+    render: () => [
+      ...makeHeader(name, help, 'gauge'),
+      ...series.values().map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+    ],
+  };
+};
+
+const makeHistogram = (name: string, help: string, buckets: number[]) => {
+  const series = makeSeries<HistogramValue>(() => ({
+    counts: buckets.map(() => 0),
+    sum: 0,
+    count: 0,
+  }));
+  return {
+    observe: (labels: Labels, value: number) => {
+      const entry = series.get(labels).value;
+      buckets.forEach((bound, index) => {
+        if (value <= bound) entry.counts[index]++;
+      });
+      entry.sum += value;
+      entry.count++;
+    },
+    render: () => [
+      ...makeHeader(name, help, 'histogram'),
+      ...series
+        .values()
+        .flatMap(({ labels, value }) => [
+          ...buckets.map(
+            (bound, index) =>
+              `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.counts[index]}`,
+          ),
+          `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+          `${name}_sum${formatLabels(labels)} ${value.sum}`,
+          `${name}_count${formatLabels(labels)} ${value.count}`,
+        ]),
+    ],
+  };
+};
+
+/** Identifies an upstream: the model that served the request, its provider and model ID */
+export interface UpstreamLabels {
+  model: string;
+  provider: string;
+  upstream: string;
+}
+
+export interface UpstreamStreamStats {
+  /** From sending the request to the first chunk */
+  timeToFirstTokenSeconds: number;
+  durationSeconds: number;
+  usage?: CompletionUsage;
+}
+
+export interface Metrics {
+  /** A completion or embedding request for `model`, the name the client asked for */
+  request(model: string): void;
+  streamStarted(model: string): void;
+  streamEnded(model: string): void;
+  /** The client went away before the response was complete */
+  cancelled(model: string): void;
+  upstreamError(labels: UpstreamLabels, status?: number): void;
+  upstreamStream(labels: UpstreamLabels, stats: UpstreamStreamStats): void;
+  /** All metrics in the Prometheus text format */
+  render(): string;
+}
+
+const PREFIX = 'raycast_proxy';
+
+/**
+ * Collects the metrics served at `/metrics`. Upstream metrics are labeled by the model
+ * that actually served the request, so fallbacks and router targets show up separately.
+ */
+export const makeMetrics = (): Metrics => {
+  const requests = makeCounter(`${PREFIX}_requests_total`, 'Completion and embedding requests.');
+  const activeStreams = makeGauge(`${PREFIX}_active_streams`, 'Completions in progress.');
+  const cancellations = makeCounter(
+    `${PREFIX}_client_cancellations_total`,
+    'Completions the client cancelled before they were complete.',
+  );
+  const upstreamErrors = makeCounter(
+    `${PREFIX}_upstream_errors_total`,
+    'Failed upstream requests, by HTTP status; "none" for connection and stream errors.',
+  );
+  const timeToFirstToken = makeHistogram(
+    `${PREFIX}_time_to_first_token_seconds`,
+    'Time from sending a request upstream to its first chunk.',
+    [0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60],
+  );
+  const streamDuration = makeHistogram(
+    `${PREFIX}_stream_duration_seconds`,
+    'Time from sending a request upstream to the end of its stream.',
+    [0.5, 1, 2, 5, 10, 30, 60, 120, 300],
+  );
+  const tokensPerSecond = makeHistogram(
+    `${PREFIX}_tokens_per_second`,
+    'Completion tokens per second, after the first chunk.',
+    [1, 5, 10, 20, 50, 100, 200, 500],
+  );
+  const tokens = makeCounter(
+    `${PREFIX}_tokens_total`,
+    'Tokens reported by the upstream, by type: prompt, completion or reasoning.',
+  );
+  const metrics: Metric[] = [
+    requests,
+    activeStreams,
+    cancellations,
+    upstreamErrors,
+    timeToFirstToken,
+    streamDuration,
+    tokensPerSecond,
+    tokens,
+  ];
+
+  return {
+    request: (model) => requests.inc({ model }),
+    streamStarted: (model) => activeStreams.inc({ model }),
+    streamEnded: (model) => activeStreams.dec({ model }),
+    cancelled: (model) => cancellations.inc({ model }),
+
+    upstreamError: (labels, status) =>
+      upstreamErrors.inc({ ...labels, status: status === undefined ? 'none' : String(status) }),
+
+    upstreamStream: (labels, { timeToFirstTokenSeconds, durationSeconds, usage }) => {
+      timeToFirstToken.observe({ ...labels }, timeToFirstTokenSeconds);
+      streamDuration.observe({ ...labels }, durationSeconds);
+      if (!usage) return;
+
+      tokens.inc({ ...labels, type: 'prompt' }, usage.prompt_tokens);
+      tokens.inc({ ...labels, type: 'completion' }, usage.completion_tokens);
+      tokens.inc(
+        { ...labels, type: 'reasoning' },
+        usage.completion_tokens_details?.reasoning_tokens ?? 0,
+      );
+      const generationSeconds = durationSeconds - timeToFirstTokenSeconds;
+      if (usage.completion_tokens > 0 && generationSeconds > 0) {
+        tokensPerSecond.observe({ ...labels }, usage.completion_tokens / generationSeconds);
+      }
+    },
+
+    render: () => `${metrics.flatMap((metric) => metric.render()).join('\n')}\n`,
+  };
+};
+
+// `onEnd` also runs for streams that stop early, when the request is cancelled or the
+// consumer stops reading. `onError` returns whether the error was an upstream failure.
+async function* measureStream(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  onChunk: () => void,
+  onEnd: (usage?: CompletionUsage) => void,
+  onError: (error: unknown) => boolean,
+): AsyncGenerator<ChatCompletionChunk> {
+  let usage: CompletionUsage | undefined = undefined;
+  let failed = false;
+  try {
+    for await (const chunk of stream) {
+      onChunk();
+      usage = chunk.usage ?? usage;
+      yield chunk;
+    }
+  } catch (error) {
+    failed = onError(error);
+    throw error;
+  } finally {
+    if (!failed) onEnd(usage);
+  }
+}
+
+/** Wraps a provider so that its latency, throughput, token usage and errors are measured */
+export const measureProvider = (
+  metrics: Metrics,
+  labels: UpstreamLabels,
+  provider: ChatProvider,
+): ChatProvider => ({
+  name: provider.name,
+
+  streamChat: async (params, options) => {
+    const startedAt = performance.now();
+    let firstChunkAt: number | undefined = undefined;
+    const seconds = (from: number, to = performance.now()) => (to - from) / 1000;
+
+    // Cancellations are counted for the client request, not as upstream errors
+    const onError = (error: unknown): boolean => {
+      if (options.signal.aborted || error instanceof OpenAI.APIUserAbortError) return false;
+      metrics.upstreamError(labels, error instanceof OpenAI.APIError ? error.status : undefined);
+      return true;
+    };
+
+    try {
+      const stream = await provider.streamChat(params, options);
+      return measureStream(
+        stream,
+        () => {
+          firstChunkAt ??= performance.now();
+        },
+        (usage) => {
+          metrics.upstreamStream(labels, {
+            timeToFirstTokenSeconds: seconds(startedAt, firstChunkAt),
+            durationSeconds: seconds(startedAt),
+            usage,
+          });
+        },
+        onError,
+      );
+    } catch (error) {
+      onError(error);
+      throw error;
+    }
+  },
+});
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { z } from 'zod/v4';
+import { UsageLimits } from '../data/models';
+import { globToRegExp } from '../patterns';
+
+export const DEFAULT_AUTH_PATH = path.resolve(__dirname, '../../auth.json');
+
+export const AuthClient = z.object({
+  /** Shown in the logs, and the user name for basic auth */
+  name: z.string().min(1),
+  token: z.string().min(16, 'Tokens must be at least 16 characters long'),
+  /** Model names this client may use; `*` matches any characters. All models if unset. */
+  models: z.array(z.string()).optional(),
+  limits: UsageLimits.optional(),
+});
+export type AuthClient = z.infer<typeof AuthClient>;
+
+export const AuthConfig = z.object({
+  /** CIDR ranges allowed to connect, e.g. `192.168.1.0/24`. Everyone if unset. */
+  allowedNetworks: z.array(z.string()).optional(),
+  /** Clients that may use the API. No authentication if unset or empty. */
+  clients: z.array(AuthClient).default([]),
+});
+export type AuthConfig = z.infer<typeof AuthConfig>;
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** The authenticated client, when authentication is enabled */
+    authClient?: AuthClient;
+  }
+}
+
+/**
+ * Reads the access rules from `filePath`. Without the file, the proxy is open to anyone
+ * who can reach it, as before. Throws if the file is invalid, so that a typo never turns
+ * authentication off.
+ */
+export const loadAuthConfig = (filePath: string): AuthConfig | undefined => {
+  if (!fs.existsSync(filePath)) return undefined;
+  const config = AuthConfig.parse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  makeBlockList(config.allowedNetworks ?? []);
+  return config;
+};
+
+const toAddressFamily = (address: string): 'ipv4' | 'ipv6' =>
+  net.isIPv4(address) ? 'ipv4' : 'ipv6';
+
+export const makeBlockList = (networks: string[]): net.BlockList => {
+  const list = new net.BlockList();
+  for (const network of networks) {
+    const [address, prefix] = network.split('/');
+    if (!net.isIP(address)) {
+      throw new Error(`Invalid network ${network}`);
+    }
+    const family = toAddressFamily(address);
+    const bits = prefix === undefined ? (family === 'ipv4' ? 32 : 128) : Number(prefix);
+    if (!Number.isInteger(bits) || bits < 0 || bits > (family === 'ipv4' ? 32 : 128)) {
+      throw new Error(`Invalid network ${network}`);
+    }
+    list.addSubnet(address, bits, family);
+  }
+  return list;
+};
+
+export const isAddressAllowed = (list: net.BlockList, remoteAddress: string): boolean => {
+  // IPv4 clients of a dual-stack server show up as IPv4-mapped IPv6 addresses
+  const address = remoteAddress.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+  return list.check(address, toAddressFamily(address));
+};
+
+/** Reads credentials from `Authorization: Bearer <token>` or `Basic <name:token>` */
+export const parseAuthorization = (
+  header: string | undefined,
+): { scheme: 'bearer' | 'basic'; name?: string; token: string } | undefined => {
+  if (!header) return undefined;
+  const [scheme, value = ''] = header.split(' ', 2);
+
+  if (scheme.toLowerCase() === 'bearer') {
+    return { scheme: 'bearer', token: value.trim() };
+  }
+  if (scheme.toLowerCase() === 'basic') {
+    const decoded = Buffer.from(value, 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator === -1) return undefined;
+    return {
+      scheme: 'basic',
+      name: decoded.slice(0, separator),
+      token: decoded.slice(separator + 1),
+    };
+  }
+  return undefined;
+};
+
+/** Whether the client may use a model. Requests without a client are not restricted. */
+export const isModelAllowed = (client: AuthClient | undefined, model: string): boolean =>
+  !client?.models || client.models.some((pattern) => globToRegExp(pattern).test(model));
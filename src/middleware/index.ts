@@ -1,10 +1,13 @@
 import { NextFunction, Request, Response } from 'express';
 import { ZodError } from 'zod/v4';
 import { HttpError } from '../errors';
+import { describeError, describeUpstreamError, formatErrorNotice } from '../errors/upstream';
 import { HttpLogger, pinoHttp } from 'pino-http';
 import { Logger } from 'pino';
-import { randomUUID } from 'node:crypto';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
 import { makeOllamaChunk, makeSSEMessage } from '../util';
+import { Config } from '../config';
+import { AuthConfig, isAddressAllowed, makeBlockList, parseAuthorization } from './auth';
 
 interface ErrorBody {
   status: number;
@@ -12,13 +15,109 @@ interface ErrorBody {
   name: string;
 }
 
+/** The error format of the OpenAI API, which its SDKs turn into their error classes */
+interface OpenAIErrorBody {
+  error: { message: string; type: string; param: string | null; code: string | null };
+}
+
+interface ErrorResponse {
+  status: number;
+  message: string;
+  name: string;
+  level: 'warn' | 'error';
+  headers?: Record<string, string>;
+}
+
 export interface Middleware {
   logger: HttpLogger<Request, Response>;
   routeNotFound(req: Request, res: Response, next: NextFunction): void;
+  adminAuth(req: Request, res: Response, next: NextFunction): void;
+  /** Accepts the metrics token or the admin token */
+  metricsAuth(req: Request, res: Response, next: NextFunction): void;
+  /** Rejects connections from outside the allowed networks */
+  networkAccess(req: Request, res: Response, next: NextFunction): void;
+  /** Identifies the client by its token and sets `req.authClient` */
+  clientAuth(req: Request, res: Response, next: NextFunction): void;
   errorHandler(err: Error, req: Request, res: Response<ErrorBody>, next: NextFunction): void;
+  /** Answers errors of the `/v1` endpoints in the OpenAI format */
+  openAIErrorHandler(
+    err: Error,
+    req: Request,
+    res: Response<OpenAIErrorBody>,
+    next: NextFunction,
+  ): void;
 }
 
-export const makeMiddleware = (logger: Logger): Middleware => {
+const tokensMatch = (a: string, b: string): boolean => {
+  // Hash both sides so the comparison is constant-time regardless of length
+  const hashA = createHash('sha256').update(a).digest();
+  const hashB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+};
+
+const getBearerToken = (req: Request): string => {
+  const header = req.headers.authorization ?? '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+};
+
+const describeErrorResponse = (err: Error): ErrorResponse => {
+  if (err instanceof HttpError) {
+    return {
+      status: err.status,
+      message: err.message,
+      name: err.name,
+      level: 'warn',
+      headers: err.headers,
+    };
+  }
+  if (err instanceof ZodError) {
+    return { status: 400, message: 'Invalid request', name: 'ZodError', level: 'warn' };
+  }
+  const upstream = describeUpstreamError(err);
+  if (upstream) {
+    return { ...upstream, name: 'UpstreamError', level: 'warn' };
+  }
+  return {
+    status: 500,
+    message: err.message ?? 'Something went wrong',
+    name: 'InternalServerError',
+    level: 'error',
+  };
+};
+
+const getOpenAIErrorType = (status: number): string => {
+  switch (status) {
+    case 401:
+      return 'authentication_error';
+    case 402:
+      return 'insufficient_quota';
+    case 403:
+      return 'permission_error';
+    case 429:
+      return 'rate_limit_error';
+    default:
+      return status >= 500 ? 'server_error' : 'invalid_request_error';
+  }
+};
+
+const makeOpenAIErrorBody = ({ status, message }: ErrorResponse): OpenAIErrorBody => ({
+  error: { message, type: getOpenAIErrorType(status), param: null, code: null },
+});
+
+export const makeMiddleware = (logger: Logger, config: Config, auth?: AuthConfig): Middleware => {
+  const allowedNetworks = auth?.allowedNetworks?.length
+    ? makeBlockList(auth.allowedNetworks)
+    : undefined;
+  const clients = auth?.clients ?? [];
+
+  const rejectAuth = (req: Request, reason: string): never => {
+    req.log.warn(
+      { requestId: req.id, reason, ip: req.socket.remoteAddress, path: req.originalUrl },
+      'AuthFailed',
+    );
+    throw new HttpError(401, 'Unauthorized');
+  };
+
   return {
     logger: pinoHttp({
       logger: logger.child({ category: 'HttpEvent' }),
@@ -42,6 +141,79 @@ export const makeMiddleware = (logger: Logger): Middleware => {
       throw new HttpError(404, 'Route not found');
     },
 
+    adminAuth: (req, _res, next) => {
+      // The admin API is disabled unless a token is configured
+      if (!config.adminToken) {
+        throw new HttpError(404, 'Route not found');
+      }
+
+      if (!tokensMatch(getBearerToken(req), config.adminToken)) {
+        throw new HttpError(401, 'Unauthorized');
+      }
+
+      next();
+    },
+
+    metricsAuth: (req, _res, next) => {
+      // Metrics are disabled unless a token is configured, like the admin API
+      const tokens = [config.metricsToken, config.adminToken].filter(
+        (token) => token !== undefined,
+      );
+      if (tokens.length === 0) {
+        throw new HttpError(404, 'Route not found');
+      }
+
+      // Compare against every token so the timing does not reveal which one matched
+      const token = getBearerToken(req);
+      const matches = tokens.map((expected) => tokensMatch(token, expected));
+      if (!matches.includes(true)) {
+        throw new HttpError(401, 'Unauthorized');
+      }
+
+      next();
+    },
+
+    networkAccess: (req, _res, next) => {
+      const address = req.socket.remoteAddress ?? '';
+      if (allowedNetworks && !isAddressAllowed(allowedNetworks, address)) {
+        req.log.warn(
+          { requestId: req.id, ip: address, path: req.originalUrl },
+          'NetworkAccessDenied',
+        );
+        throw new HttpError(403, 'Forbidden');
+      }
+      next();
+    },
+
+    clientAuth: (req, res, next) => {
+      if (clients.length === 0) {
+        next();
+        return;
+      }
+
+      const credentials = parseAuthorization(req.headers.authorization);
+      if (!credentials) {
+        res.setHeader('WWW-Authenticate', 'Basic realm="raycast-ai-openrouter-proxy"');
+        rejectAuth(req, 'MissingCredentials');
+        return;
+      }
+
+      // Compare against every client so the timing does not reveal which names exist
+      const matches = clients.filter(
+        (client) =>
+          tokensMatch(credentials.token, client.token) &&
+          (credentials.name === undefined || credentials.name === client.name),
+      );
+      if (matches.length === 0) {
+        rejectAuth(req, credentials.scheme === 'basic' ? 'InvalidBasicAuth' : 'InvalidToken');
+        return;
+      }
+
+      req.authClient = matches[0];
+      req.log = req.log.child({ client: matches[0].name });
+      next();
+    },
+
     errorHandler: (err, req, res, _next) => {
       const loggerMsg = 'ErrorHandler';
       const isChatCompletionEndpoint = req.path === '/api/chat';
@@ -51,32 +223,57 @@ export const makeMiddleware = (logger: Logger): Middleware => {
         return;
       }
 
-      // For chat completion endpoint, check if streaming has started
-      if (isChatCompletionEndpoint && res.headersSent) {
+      // Once streaming has started, the status can no longer change, so the error is told
+      // in the chat before the stream is closed
+      if (res.headersSent) {
         req.log.error(err, loggerMsg);
-        const ollamaChunk = makeOllamaChunk('Unknown', '', true);
-        res.write(makeSSEMessage(ollamaChunk));
+        if (isChatCompletionEndpoint) {
+          const model = typeof req.body?.model === 'string' ? req.body.model : 'Unknown';
+          const notice = formatErrorNotice(describeError(err));
+          res.write(makeSSEMessage(makeOllamaChunk(model, notice, false)));
+          res.write(makeSSEMessage(makeOllamaChunk(model, '', true, 'stop')));
+        }
         res.end();
         return;
       }
 
-      // Use JSON responses for other cases
-      if (err instanceof HttpError) {
-        req.log.warn(err, loggerMsg);
-        res.status(err.status).send({ status: err.status, error: err.message, name: err.name });
+      // Use JSON responses for other cases; Ollama clients show the `error` field
+      const response = describeErrorResponse(err);
+      req.log[response.level](err, loggerMsg);
+      res
+        .set(response.headers ?? {})
+        .status(response.status)
+        .send({ status: response.status, error: response.message, name: response.name });
+    },
+
+    openAIErrorHandler: (err, req, res, _next) => {
+      const loggerMsg = 'ErrorHandler';
+      const response = describeErrorResponse(err);
+
+      if (res.writableEnded) {
+        req.log.error(err, loggerMsg);
         return;
-      } else if (err instanceof ZodError) {
-        req.log.warn(err, loggerMsg);
-        res.status(400).send({ status: 400, error: 'Invalid request', name: 'ZodError' });
+      }
+
+      // A started stream can still carry an error event, which the OpenAI SDKs raise as an
+      // error; a buffered response has only sent whitespace so far
+      if (res.headersSent) {
+        req.log.error(err, loggerMsg);
+        const body = JSON.stringify(makeOpenAIErrorBody(response));
+        if (res.getHeader('Content-Type') === 'text/event-stream') {
+          res.write(`data: ${body}\n\n`);
+          res.end('data: [DONE]\n\n');
+        } else {
+          res.end(body);
+        }
         return;
       }
 
-      req.log.error(err, loggerMsg);
-      res.status(500).send({
-        status: 500,
-        error: err.message ?? 'Something went wrong',
-        name: 'InternalServerError',
-      });
+      req.log[response.level](err, loggerMsg);
+      res
+        .set(response.headers ?? {})
+        .status(response.status)
+        .send(makeOpenAIErrorBody(response));
     },
   };
 };
@@ -0,0 +1,20 @@
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Case-insensitive pattern where `*` matches any characters, including line breaks */
+export const globToRegExp = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`, 'is');
+
+/** A regular expression written as `/source/flags`, or else a glob */
+export const patternToRegExp = (pattern: string): RegExp => {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return regex ? new RegExp(regex[1], regex[2]) : globToRegExp(pattern);
+};
+
+export const isValidPattern = (pattern: string): boolean => {
+  try {
+    patternToRegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,479 @@
+import OpenAI from 'openai';
+import {
+  ChatCompletionChunk,
+  ChatCompletionContentPart,
+  ChatCompletionCreateParamsStreaming,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from 'openai/resources';
+import { ChatProvider } from '.';
+import { parseToolArguments } from '../json';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+// The Messages API requires max_tokens, the OpenAI API does not
+const DEFAULT_MAX_TOKENS = 8192;
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | {
+      type: 'image';
+      source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string };
+    }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, unknown>;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: { id: string; model: string; usage?: AnthropicUsage } }
+  | {
+      type: 'content_block_start';
+      index: number;
+      content_block: { type: string; id?: string; name?: string };
+    }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta:
+        | { type: 'text_delta'; text: string }
+        | { type: 'thinking_delta'; thinking: string }
+        | { type: 'input_json_delta'; partial_json: string }
+        | { type: 'signature_delta'; signature: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_delta'; delta: { stop_reason?: string | null }; usage?: AnthropicUsage }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type: string; message: string } };
+
+export interface AnthropicProviderOptions {
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+const textOf = (content: ChatCompletionMessageParam['content']): string => {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+};
+
+const convertImage = (url: string): AnthropicContentBlock => {
+  const dataUrl = /^data:([^;]+);base64,(.*)$/s.exec(url);
+  if (dataUrl) {
+    return { type: 'image', source: { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] } };
+  }
+  return { type: 'image', source: { type: 'url', url } };
+};
+
+const convertUserContent = (
+  content: string | ChatCompletionContentPart[],
+): AnthropicContentBlock[] => {
+  if (typeof content === 'string') {
+    return content ? [{ type: 'text', text: content }] : [];
+  }
+  return content.flatMap((part): AnthropicContentBlock[] => {
+    if (part.type === 'text') return part.text ? [{ type: 'text', text: part.text }] : [];
+    if (part.type === 'image_url') return [convertImage(part.image_url.url)];
+    return [];
+  });
+};
+
+/**
+ * The API requires `input` to be an object. Arguments that cannot be repaired are kept
+ * as they are under `arguments`, so the model still sees what it sent.
+ */
+const parseToolInput = (args: string): Record<string, unknown> =>
+  parseToolArguments(args) ?? { arguments: args };
+
+/**
+ * With extended thinking, the API expects the assistant turn of an ongoing tool loop to
+ * start with its signed thinking block. Raycast does not send thinking back, so thinking
+ * is left off while the last assistant turn is waiting on tool results.
+ */
+const isInToolLoop = (messages: AnthropicMessage[]): boolean => {
+  const last = messages[messages.length - 1];
+  const previous = messages[messages.length - 2];
+  return (
+    last?.role === 'user' &&
+    last.content.some((block) => block.type === 'tool_result') &&
+    previous?.role === 'assistant' &&
+    previous.content.some((block) => block.type === 'tool_use')
+  );
+};
+
+/**
+ * Converts OpenAI chat messages to the Messages API format. System messages move to the
+ * top-level system prompt, tool results become `tool_result` blocks in user turns, and
+ * consecutive turns of the same role are merged because the API requires alternation.
+ */
+export const convertMessagesToAnthropic = (
+  messages: ChatCompletionMessageParam[],
+): { system?: string; messages: AnthropicMessage[] } => {
+  const system: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  const append = (role: AnthropicMessage['role'], content: AnthropicContentBlock[]) => {
+    if (content.length === 0) return;
+    const last = converted[converted.length - 1];
+    if (last?.role === role) {
+      last.content.push(...content);
+    } else {
+      converted.push({ role, content });
+    }
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        system.push(textOf(message.content));
+        break;
+      case 'user':
+        append('user', convertUserContent(message.content));
+        break;
+      case 'assistant': {
+        const text = textOf(message.content);
+        append('assistant', [
+          ...(text ? [{ type: 'text' as const, text }] : []),
+          ...(message.tool_calls ?? []).flatMap((call): AnthropicContentBlock[] =>
+            call.type === 'function'
+              ? [
+                  {
+                    type: 'tool_use',
+                    id: call.id,
+                    name: call.function.name,
+                    input: parseToolInput(call.function.arguments),
+                  },
+                ]
+              : [],
+          ),
+        ]);
+        break;
+      }
+      case 'tool':
+        append('user', [
+          {
+            type: 'tool_result',
+            tool_use_id: message.tool_call_id,
+            content: textOf(message.content),
+          },
+        ]);
+        break;
+    }
+  }
+
+  return {
+    system: system.filter(Boolean).join('\n\n') || undefined,
+    messages: converted,
+  };
+};
+
+export const convertToolsToAnthropic = (tools: ChatCompletionTool[]): AnthropicTool[] =>
+  tools.flatMap((tool) =>
+    tool.type === 'function'
+      ? [
+          {
+            name: tool.function.name,
+            description: tool.function.description,
+            input_schema: tool.function.parameters ?? { type: 'object', properties: {} },
+          },
+        ]
+      : [],
+  );
+
+const convertToolChoiceToAnthropic = (
+  toolChoice: NonNullable<ChatCompletionCreateParamsStreaming['tool_choice']>,
+) => {
+  if (toolChoice === 'required') return { type: 'any' };
+  if (typeof toolChoice === 'string') return { type: toolChoice };
+  if (toolChoice.type === 'function') return { type: 'tool', name: toolChoice.function.name };
+  return { type: 'auto' };
+};
+
+/**
+ * Builds the Messages API request body. Known OpenAI parameters are translated, and any
+ * other keys (e.g. `thinking` or `metadata` set through a model's `extra`) are passed
+ * through unchanged.
+ */
+export const makeAnthropicRequest = (
+  params: ChatCompletionCreateParamsStreaming,
+): Record<string, unknown> => {
+  const {
+    model,
+    messages,
+    tools,
+    tool_choice,
+    temperature,
+    top_p,
+    max_completion_tokens,
+    max_tokens,
+    stop,
+    /* eslint-disable @typescript-eslint/no-unused-vars */
+    stream: _stream,
+    stream_options: _streamOptions,
+    /* eslint-enable @typescript-eslint/no-unused-vars */
+    ...passthrough
+  } = params;
+
+  const { system, messages: anthropicMessages } = convertMessagesToAnthropic(messages);
+  const { thinking, ...rest } = passthrough as { thinking?: { type?: string } };
+  const dropThinking = thinking?.type === 'enabled' && isInToolLoop(anthropicMessages);
+  // Extended thinking does not allow changing the sampling parameters
+  const thinkingEnabled = thinking?.type === 'enabled' && !dropThinking;
+
+  return {
+    ...rest,
+    ...(thinking && !dropThinking && { thinking }),
+    model,
+    ...(system && { system }),
+    messages: anthropicMessages,
+    max_tokens: max_completion_tokens ?? max_tokens ?? DEFAULT_MAX_TOKENS,
+    stream: true,
+    ...(!thinkingEnabled && temperature != null && { temperature: Math.min(temperature, 1) }),
+    ...(!thinkingEnabled && top_p != null && { top_p }),
+    ...(stop && { stop_sequences: Array.isArray(stop) ? stop : [stop] }),
+    ...(tools && tools.length > 0 && { tools: convertToolsToAnthropic(tools) }),
+    ...(tool_choice && { tool_choice: convertToolChoiceToAnthropic(tool_choice) }),
+  };
+};
+
+const FINISH_REASONS: Record<string, ChatCompletionChunk.Choice['finish_reason']> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  pause_turn: 'stop',
+  tool_use: 'tool_calls',
+  max_tokens: 'length',
+  refusal: 'content_filter',
+};
+
+/**
+ * Parses a `text/event-stream` body into its `event`/`data` pairs.
+ */
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<{ event?: string; data: string }> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parse = (block: string) => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : undefined;
+  };
+
+  for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true });
+    let boundary: RegExpExecArray | null;
+    while ((boundary = /\r?\n\r?\n/.exec(buffer))) {
+      const message = parse(buffer.slice(0, boundary.index));
+      buffer = buffer.slice(boundary.index + boundary[0].length);
+      if (message) yield message;
+    }
+  }
+
+  const message = parse(buffer + decoder.decode());
+  if (message) yield message;
+}
+
+/**
+ * Translates Messages API stream events into OpenAI chat completion chunks. Thinking is
+ * emitted as `reasoning_content` and `tool_use` blocks as streamed tool calls.
+ */
+async function* translateStream(
+  events: AsyncIterable<{ event?: string; data: string }>,
+): AsyncGenerator<ChatCompletionChunk> {
+  let id = '';
+  let model = '';
+  let usage: AnthropicUsage = {};
+  let finishReason: ChatCompletionChunk.Choice['finish_reason'] = null;
+  // Content block index -> tool call index, since text and thinking blocks share the numbering
+  const toolIndexes = new Map<number, number>();
+
+  const makeChunk = (
+    delta: ChatCompletionChunk.Choice.Delta & { reasoning_content?: string },
+    finish_reason: ChatCompletionChunk.Choice['finish_reason'] = null,
+  ): ChatCompletionChunk => ({
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, delta, finish_reason }],
+  });
+
+  for await (const { data } of events) {
+    const event = JSON.parse(data) as AnthropicStreamEvent;
+
+    switch (event.type) {
+      case 'message_start':
+        id = event.message.id;
+        model = event.message.model;
+        usage = { ...event.message.usage };
+        yield makeChunk({ role: 'assistant', content: '' });
+        break;
+
+      case 'content_block_start':
+        if (event.content_block.type === 'tool_use') {
+          const index = toolIndexes.size;
+          toolIndexes.set(event.index, index);
+          yield makeChunk({
+            tool_calls: [
+              {
+                index,
+                id: event.content_block.id,
+                type: 'function',
+                function: { name: event.content_block.name, arguments: '' },
+              },
+            ],
+          });
+        }
+        break;
+
+      case 'content_block_delta':
+        switch (event.delta.type) {
+          case 'text_delta':
+            yield makeChunk({ content: event.delta.text });
+            break;
+          case 'thinking_delta':
+            yield makeChunk({ reasoning_content: event.delta.thinking });
+            break;
+          case 'input_json_delta': {
+            const index = toolIndexes.get(event.index);
+            if (index !== undefined) {
+              yield makeChunk({
+                tool_calls: [{ index, function: { arguments: event.delta.partial_json } }],
+              });
+            }
+            break;
+          }
+        }
+        break;
+
+      case 'message_delta':
+        usage = { ...usage, ...event.usage };
+        if (event.delta.stop_reason) {
+          finishReason = FINISH_REASONS[event.delta.stop_reason] ?? 'stop';
+        }
+        break;
+
+      case 'message_stop': {
+        const promptTokens =
+          (usage.input_tokens ?? 0) +
+          (usage.cache_creation_input_tokens ?? 0) +
+          (usage.cache_read_input_tokens ?? 0);
+        const completionTokens = usage.output_tokens ?? 0;
+        yield {
+          ...makeChunk({}, finishReason ?? 'stop'),
+          usage: {
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: promptTokens + completionTokens,
+            prompt_tokens_details: { cached_tokens: usage.cache_read_input_tokens ?? 0 },
+          },
+        };
+        return;
+      }
+
+      case 'error':
+        throw new OpenAI.APIError(undefined, event.error, event.error.message, undefined);
+    }
+  }
+}
+
+const toAPIError = (error: unknown, signal: AbortSignal): Error => {
+  if (signal.aborted) {
+    return new OpenAI.APIUserAbortError();
+  }
+  if (error instanceof OpenAI.APIError) {
+    return error;
+  }
+  return new OpenAI.APIConnectionError({
+    cause: error instanceof Error ? error : undefined,
+  });
+};
+
+async function* withErrorTranslation<T>(
+  iterable: AsyncIterable<T>,
+  signal: AbortSignal,
+): AsyncGenerator<T> {
+  try {
+    yield* iterable;
+  } catch (error) {
+    throw toAPIError(error, signal);
+  }
+}
+
+/**
+ * Talks to the Anthropic Messages API directly, for models declared with
+ * `"provider": "anthropic"`.
+ */
+export const makeAnthropicProvider = ({
+  baseUrl = DEFAULT_BASE_URL,
+  apiKey,
+}: AnthropicProviderOptions): ChatProvider => ({
+  name: 'anthropic',
+
+  streamChat: async (params, { signal }) => {
+    if (!apiKey) {
+      throw new OpenAI.AuthenticationError(
+        401,
+        undefined,
+        'No API key configured for the Anthropic provider',
+        new Headers(),
+      );
+    }
+
+    let response: globalThis.Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/messages`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(makeAnthropicRequest(params)),
+        signal,
+      });
+    } catch (error) {
+      throw toAPIError(error, signal);
+    }
+
+    if (!response.ok || !response.body) {
+      const text = await response.text().catch(() => '');
+      let body: unknown = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Not JSON, keep the raw text
+      }
+      const message = (body as { error?: { message?: string } })?.error?.message ?? text;
+      throw OpenAI.APIError.generate(response.status, body as object, message, response.headers);
+    }
+
+    return withErrorTranslation(translateStream(readServerSentEvents(response.body)), signal);
+  },
+});
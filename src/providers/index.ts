@@ -0,0 +1,49 @@
+import OpenAI from 'openai';
+import { ChatCompletionChunk, ChatCompletionCreateParamsStreaming } from 'openai/resources';
+import { getOpenAIInstanceForModel, MockOptions, ModelConfig } from '../data/models';
+import { makeAnthropicProvider } from './anthropic';
+import { makeMockProvider } from './mock';
+import { makeOpenAIProvider } from './openai';
+
+export interface ChatStreamOptions {
+  signal: AbortSignal;
+}
+
+/**
+ * An upstream that can stream a chat completion. Requests and chunks use the OpenAI
+ * chat completions format, so every provider shares the same conversion and streaming
+ * code. Adapters for other APIs translate in both directions.
+ *
+ * Failures must be thrown as `OpenAI.APIError`s so that retries and fallbacks can
+ * classify them the same way for every provider.
+ */
+export interface ChatProvider {
+  readonly name: string;
+  streamChat(
+    params: ChatCompletionCreateParamsStreaming,
+    options: ChatStreamOptions,
+  ): Promise<AsyncIterable<ChatCompletionChunk>>;
+}
+
+export interface ProviderDefaults {
+  openai: OpenAI;
+  anthropicApiKey?: string;
+}
+
+export const getProviderForModel = (
+  config: ModelConfig,
+  defaults: ProviderDefaults,
+): ChatProvider => {
+  switch (config.provider) {
+    case 'anthropic':
+      return makeAnthropicProvider({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey ?? defaults.anthropicApiKey,
+      });
+    case 'mock':
+      return makeMockProvider(config.mock ?? MockOptions.parse({}));
+    case 'openai':
+    case undefined:
+      return makeOpenAIProvider(getOpenAIInstanceForModel(config, defaults.openai));
+  }
+};
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import OpenAI from 'openai';
+import {
+  ChatCompletionChunk,
+  ChatCompletionCreateParamsStreaming,
+  ChatCompletionMessageParam,
+} from 'openai/resources';
+import { z } from 'zod/v4';
+import { ChatProvider } from '.';
+import { estimateTextTokens, estimateTokens, getMessageText } from '../context';
+import { MockOptions, MockReply, MockResponse } from '../data/models';
+import { patternToRegExp } from '../patterns';
+
+type Delta = ChatCompletionChunk.Choice.Delta & {
+  reasoning_content?: string;
+  reasoning?: string;
+};
+
+const delay = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new OpenAI.APIUserAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OpenAI.APIUserAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const splitText = (text: string, size: number): string[] => {
+  const chars = Array.from(text);
+  const parts: string[] = [];
+  for (let i = 0; i < chars.length; i += size) {
+    parts.push(chars.slice(i, i + size).join(''));
+  }
+  return parts;
+};
+
+const loadResponses = async ({ responses, file }: MockOptions): Promise<MockResponse[]> => {
+  if (!file) return responses;
+  try {
+    const content = JSON.parse(await fs.promises.readFile(file, 'utf8')) as unknown;
+    return [...responses, ...z.array(MockResponse).parse(content)];
+  } catch (error) {
+    const reason =
+      error instanceof z.ZodError
+        ? z.prettifyError(error)
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    throw new OpenAI.BadRequestError(
+      400,
+      undefined,
+      `Invalid mock responses file ${file}: ${reason}`,
+      new Headers(),
+    );
+  }
+};
+
+/**
+ * Picks the reply to a conversation. Each assistant message since the last user message
+ * is a round of tool calls, which the response's follow-ups answer in turn.
+ */
+const selectReply = (
+  messages: ChatCompletionMessageParam[],
+  responses: MockResponse[],
+  options: MockOptions,
+): MockReply => {
+  const lastUser = messages.map((msg) => msg.role).lastIndexOf('user');
+  const prompt = lastUser === -1 ? '' : getMessageText(messages[lastUser]);
+  const round = messages.slice(lastUser + 1).filter((msg) => msg.role === 'assistant').length;
+
+  const response = responses.find(
+    (response) => !response.match || patternToRegExp(response.match).test(prompt),
+  );
+  if (!response) {
+    return { reasoning: options.reasoning, content: prompt };
+  }
+  if (round === 0) return response;
+  return (
+    response.followUps[round - 1] ?? {
+      content: `The mock script has no follow-up for tool round ${round}.`,
+    }
+  );
+};
+
+async function* streamReply(
+  reply: MockReply,
+  params: ChatCompletionCreateParamsStreaming,
+  { chunkSize, delayMs, reasoningFormat }: MockOptions,
+  signal: AbortSignal,
+): AsyncGenerator<ChatCompletionChunk> {
+  const makeChunk = (
+    delta: Delta,
+    finish_reason: ChatCompletionChunk.Choice['finish_reason'] = null,
+  ): ChatCompletionChunk => ({
+    id: 'mock',
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model: params.model,
+    choices: [{ index: 0, delta, finish_reason }],
+  });
+
+  const deltas: Delta[] = [{ role: 'assistant', content: '' }];
+  let output = '';
+
+  const content =
+    reply.reasoning && reasoningFormat === 'think_tags'
+      ? `<think>${reply.reasoning}</think>${reply.content ?? ''}`
+      : (reply.content ?? '');
+  if (reply.reasoning && reasoningFormat !== 'think_tags') {
+    for (const part of splitText(reply.reasoning, chunkSize)) {
+      deltas.push({ [reasoningFormat]: part });
+    }
+    output += reply.reasoning;
+  }
+  for (const part of splitText(content, chunkSize)) {
+    deltas.push({ content: part });
+  }
+  output += content;
+
+  for (const [index, call] of (reply.toolCalls ?? []).entries()) {
+    const args =
+      typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments);
+    deltas.push({
+      tool_calls: [
+        {
+          index,
+          id: `call_mock_${index}`,
+          type: 'function',
+          function: { name: call.name, arguments: '' },
+        },
+      ],
+    });
+    for (const part of splitText(args, chunkSize)) {
+      deltas.push({ tool_calls: [{ index, function: { arguments: part } }] });
+    }
+    output += call.name + args;
+  }
+
+  for (const delta of deltas) {
+    await delay(delayMs, signal);
+    yield makeChunk(delta);
+  }
+  yield makeChunk({}, reply.toolCalls?.length ? 'tool_calls' : 'stop');
+
+  if (params.stream_options?.include_usage) {
+    const promptTokens = estimateTokens(params.messages, params.tools);
+    const completionTokens = estimateTextTokens(output);
+    yield {
+      ...makeChunk({}),
+      choices: [],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+}
+
+/**
+ * Answers without any upstream, for models declared with `"provider": "mock"`. It echoes
+ * the last user message or plays scripted replies, in chunks like a real model would, so
+ * the reasoning and tool call handling can be tried out offline.
+ */
+export const makeMockProvider = (options: MockOptions): ChatProvider => ({
+  name: 'mock',
+
+  streamChat: async (params, { signal }) => {
+    const reply = selectReply(params.messages, await loadResponses(options), options);
+    if (reply.error) {
+      const { status, message } = reply.error;
+      throw OpenAI.APIError.generate(status, { error: { message } }, message, new Headers());
+    }
+    return streamReply(reply, params, options, signal);
+  },
+});
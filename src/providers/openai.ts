@@ -0,0 +1,10 @@
+import OpenAI from 'openai';
+import { ChatProvider } from '.';
+
+export const makeOpenAIProvider = (client: OpenAI): ChatProvider => ({
+  name: 'openai',
+
+  // Retries are handled across fallback targets instead of inside the SDK
+  streamChat: (params, { signal }) =>
+    client.chat.completions.create(params, { signal, maxRetries: 0 }),
+});
@@ -0,0 +1,273 @@
+import fs from 'fs';
+import path from 'path';
+import { ErrorRequestHandler, RequestHandler } from 'express';
+import OpenAI from 'openai';
+import { ChatCompletionChunk, ChatCompletionCreateParamsStreaming } from 'openai/resources';
+import { Logger } from 'pino';
+import { CompletionResult, CompletionSink } from './completion';
+import { ModelConfig } from './data/models';
+import { ChatProvider } from './providers';
+
+/** The endpoints that run completions; other requests are not recorded */
+const RECORDED_PATHS = ['/api/chat', '/api/generate', '/v1/chat/completions'];
+/** Request headers that change the response, such as the locale of the system prompt */
+const RECORDED_HEADERS = ['accept-language', 'user-agent'];
+
+const REDACTED = '[REDACTED]';
+
+// Keys issued by common providers, in case they end up in a prompt or a tool result
+const SECRET_PATTERNS = [
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\bgh[pousr]_[A-Za-z0-9]{20,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /(?<=\b(?:Bearer|Basic)\s+)[A-Za-z0-9._~+/-]{16,}=*/gi,
+];
+const SECRET_KEYS = /^(api_?key|authorization|password|secret|token)$/i;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+const DATA_URL_PAYLOAD = /(?<=^data:[\w.+-]+\/[\w.+-]+;base64,)[A-Za-z0-9+/]+={0,2}$/;
+
+export interface UpstreamExchange {
+  provider: string;
+  /** The request in the OpenAI format, after conversion */
+  params: ChatCompletionCreateParamsStreaming;
+  chunks: ChatCompletionChunk[];
+  /** Set when the request failed, before or during the stream */
+  error?: { status?: number; message: string };
+}
+
+/** What the completion handed to the endpoint, before it was shaped into the response */
+export type RecordedOutput =
+  | { type: 'reasoning' | 'content'; text: string }
+  | { type: 'toolCall'; call: ChatCompletionChunk.Choice.Delta.ToolCall }
+  | ({ type: 'finish' } & CompletionResult);
+
+export interface Recording {
+  requestId: string;
+  startedAt: string;
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  /** The request as the client sent it */
+  request: unknown;
+  /** The model the client asked for and the configs it resolved to, fallbacks last */
+  model?: { requested: string; configs: ModelConfig[] };
+  /** Every request sent upstream, including failed attempts and summaries */
+  upstream: UpstreamExchange[];
+  /** Set when the answer came from the response cache, so nothing was sent upstream */
+  cacheHit?: boolean;
+  status?: number;
+  output: RecordedOutput[];
+  /** The error the request failed with, before the error handler answered it */
+  error?: { name: string; message: string };
+  durationMs?: number;
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** The recording of this request, when recording is enabled */
+    recording?: Recording;
+  }
+}
+
+export interface RedactionOptions {
+  /** Keep images instead of replacing them with their size */
+  images: boolean;
+  /** Extra patterns to redact, on top of the well-known key formats */
+  patterns: RegExp[];
+  /** Values that are always secret, such as the configured API keys */
+  secrets: () => string[];
+}
+
+export type Redactor = <T>(value: T) => T;
+
+const describeImage = (base64: string) => `[image: ${Buffer.byteLength(base64, 'base64')} bytes]`;
+
+/**
+ * Returns a copy of a value with secrets replaced, and images replaced by their size.
+ * Images are replaced the same way in the client request and the converted request, so
+ * a recording and its replay still compare equal.
+ */
+export const makeRedactor = ({ images, patterns, secrets }: RedactionOptions): Redactor => {
+  const redactText = (text: string, known: string[]) => {
+    let result = known.reduce((acc, secret) => acc.split(secret).join(REDACTED), text);
+    for (const pattern of [...SECRET_PATTERNS, ...patterns]) {
+      result = result.replace(pattern, REDACTED);
+    }
+    return result;
+  };
+
+  const walk = (value: unknown, key: string, known: string[]): unknown => {
+    if (typeof value === 'string') {
+      if (SECRET_KEYS.test(key)) return REDACTED;
+      if (!images && key === 'images' && BASE64.test(value)) return describeImage(value);
+      if (!images && DATA_URL_PAYLOAD.test(value)) {
+        return value.replace(DATA_URL_PAYLOAD, (payload) => describeImage(payload));
+      }
+      return redactText(value, known);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => walk(item, key, known));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, item]) => [name, walk(item, name, known)]),
+      );
+    }
+    return value;
+  };
+
+  return <T>(value: T): T => {
+    // Short values would match ordinary text, and no real key is that short
+    const known = secrets().filter((secret) => secret.length >= 8);
+    return walk(value, '', known) as T;
+  };
+};
+
+const describeError = (error: unknown): UpstreamExchange['error'] => ({
+  status: error instanceof OpenAI.APIError ? error.status : undefined,
+  message: error instanceof Error ? error.message : String(error),
+});
+
+async function* tapStream(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  exchange: UpstreamExchange,
+): AsyncGenerator<ChatCompletionChunk> {
+  try {
+    for await (const chunk of stream) {
+      exchange.chunks.push(chunk);
+      yield chunk;
+    }
+  } catch (error) {
+    exchange.error = describeError(error);
+    throw error;
+  }
+}
+
+/** Wraps a provider so that its requests and chunks are added to the recording */
+export const recordProvider = (recording: Recording, provider: ChatProvider): ChatProvider => ({
+  name: provider.name,
+
+  streamChat: async (params, options) => {
+    const exchange: UpstreamExchange = { provider: provider.name, params, chunks: [] };
+    recording.upstream.push(exchange);
+    try {
+      return tapStream(await provider.streamChat(params, options), exchange);
+    } catch (error) {
+      exchange.error = describeError(error);
+      throw error;
+    }
+  },
+});
+
+/** Wraps a completion sink so that the output it receives is added to the recording */
+export const recordSink = (recording: Recording, sink: CompletionSink): CompletionSink => ({
+  ...sink,
+
+  reasoning: (text) => {
+    recording.output.push({ type: 'reasoning', text });
+    sink.reasoning(text);
+  },
+
+  content: (text) => {
+    recording.output.push({ type: 'content', text });
+    sink.content(text);
+  },
+
+  ...(sink.toolCall && {
+    toolCall: (call) => {
+      recording.output.push({ type: 'toolCall', call });
+      sink.toolCall?.(call);
+    },
+  }),
+
+  finish: (result) => {
+    recording.output.push({ type: 'finish', ...result });
+    sink.finish(result);
+  },
+});
+
+export interface Recorder {
+  /** Records the request, the upstream exchanges and the output of completions */
+  middleware: RequestHandler;
+  /** Adds the error of a recorded request; goes before the error handler */
+  errorMiddleware: ErrorRequestHandler;
+  /** Resolves once the recordings of every request received so far have been saved */
+  flush(): Promise<void>;
+}
+
+export interface RecorderOptions {
+  dir: string;
+  redact: Redactor;
+}
+
+/**
+ * Saves each completion request as `<X-Request-Id>.json` in `dir` once the response is
+ * over, whether it finished, failed or was cancelled. See `src/replay.ts` for playing a
+ * recording back.
+ */
+export const makeRecorder = ({ dir, redact }: RecorderOptions, logger: Logger): Recorder => {
+  const log = logger.child({ category: 'Recorder' });
+  const pending = new Set<Promise<void>>();
+
+  const save = async (recording: Recording) => {
+    const filePath = path.join(dir, `${recording.requestId}.json`);
+    try {
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(filePath, JSON.stringify(redact(recording), null, 2), 'utf8');
+      log.info({ requestId: recording.requestId, path: filePath }, 'RequestRecorded');
+    } catch (error) {
+      log.warn({ err: error, requestId: recording.requestId }, 'RecordingWriteFailed');
+    }
+  };
+
+  return {
+    middleware: (req, res, next) => {
+      if (req.method !== 'POST' || !RECORDED_PATHS.includes(req.originalUrl.split('?')[0])) {
+        next();
+        return;
+      }
+
+      const startedAt = Date.now();
+      const recording: Recording = {
+        requestId: String(req.id),
+        startedAt: new Date(startedAt).toISOString(),
+        method: req.method,
+        path: req.originalUrl,
+        headers: Object.fromEntries(
+          RECORDED_HEADERS.flatMap((name) => {
+            const value = req.get(name);
+            return value === undefined ? [] : [[name, value]];
+          }),
+        ),
+        request: req.body,
+        model: undefined,
+        upstream: [],
+        output: [],
+      };
+      req.recording = recording;
+
+      const saved = new Promise<void>((resolve) => {
+        res.on('close', () => {
+          recording.status = res.statusCode;
+          recording.durationMs = Date.now() - startedAt;
+          void save(recording).then(resolve);
+        });
+      });
+      pending.add(saved);
+      void saved.then(() => pending.delete(saved));
+      next();
+    },
+
+    errorMiddleware: (err: Error, req, _res, next) => {
+      if (req.recording) {
+        req.recording.error = { name: err.name, message: err.message };
+      }
+      next(err);
+    },
+
+    flush: async () => {
+      await Promise.all(pending);
+    },
+  };
+};
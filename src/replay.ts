@@ -0,0 +1,222 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import OpenAI from 'openai';
+import pino from 'pino';
+import { makeApp } from './app';
+import { Config } from './config';
+import { makeModelCatalog } from './data/catalog';
+import { makeLruCache, makeResponseCache } from './data/cache';
+import { makeUsageLimiter } from './data/limits';
+import { ModelConfig } from './data/models';
+import { makeOllamaDiscovery } from './data/ollama';
+import { DEFAULT_PROMPTS_PATH, makePromptLibrary } from './data/prompts';
+import { makeUsageLedger } from './data/usage';
+import { makeMetrics } from './metrics';
+import { makeMiddleware } from './middleware';
+import { ChatProvider } from './providers';
+import { makeRecorder, makeRedactor, Recording, UpstreamExchange } from './recording';
+import { makeMcpManager } from './tools/mcp';
+
+/**
+ * Plays a recording back through the current code, with the recorded upstream chunks in
+ * place of the network, and reports where the converted requests or the response differ.
+ *
+ *   npm run replay -- data/recordings/<request-id>.json [--out replayed.json]
+ *
+ * The system prompt presets are read from `PROMPTS_PATH` as the server does. MCP servers
+ * and web search are not available, so requests that used them replay without their tools.
+ * Answers from the response cache never reached the provider, so they are skipped.
+ */
+
+/** Replays the recorded exchanges in order, whichever model they are sent for */
+const makeReplayProvider = (exchanges: UpstreamExchange[]): ChatProvider => {
+  let next = 0;
+  return {
+    name: 'replay',
+
+    streamChat: async () => {
+      const exchange = exchanges[next++];
+      if (!exchange) {
+        throw new OpenAI.APIError(
+          400,
+          undefined,
+          'The recording has no more upstream responses',
+          undefined,
+        );
+      }
+      const { chunks, error } = exchange;
+      const toError = (error: NonNullable<UpstreamExchange['error']>) =>
+        new OpenAI.APIError(error.status, { message: error.message }, error.message, undefined);
+      if (error && chunks.length === 0) {
+        throw toError(error);
+      }
+
+      return (async function* () {
+        yield* chunks;
+        if (error) throw toError(error);
+      })();
+    },
+  };
+};
+
+/** The model the recording resolved to, under the name the client asked for */
+const makeReplayCatalog = ({ model }: Recording): ModelConfig[] => {
+  if (!model) return [];
+  const [primary, ...fallbacks] = model.configs;
+  const configs = [{ ...primary, name: model.requested }, ...fallbacks];
+  return configs.filter(
+    (config, index) => configs.findIndex((other) => other.name === config.name) === index,
+  );
+};
+
+/** The path of the first difference between two JSON values, if any */
+const findDifference = (a: unknown, b: unknown, at = ''): string | undefined => {
+  if (Object.is(a, b)) return undefined;
+  if (
+    !a ||
+    !b ||
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return at || '(root)';
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  for (const key of new Set([...Object.keys(left), ...Object.keys(right)])) {
+    const child = Array.isArray(a) ? `${at}[${key}]` : at ? `${at}.${key}` : key;
+    const difference = findDifference(left[key], right[key], child);
+    if (difference) return difference;
+  }
+  return undefined;
+};
+
+const getAt = (value: unknown, at: string): unknown =>
+  at === '(root)'
+    ? value
+    : at
+        .split(/\.|\[|\]/)
+        .filter(Boolean)
+        .reduce<unknown>((acc, key) => (acc as Record<string, unknown> | undefined)?.[key], value);
+
+const describe = (value: unknown) => {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 300 ? `${text.slice(0, 300)}…` : text;
+};
+
+const report = (label: string, recorded: unknown, replayed: unknown): boolean => {
+  const difference = findDifference(recorded, replayed);
+  if (!difference) {
+    console.log(`✓ ${label}`);
+    return true;
+  }
+  console.log(`✗ ${label} differs at ${difference}`);
+  console.log(`  recorded: ${describe(getAt(recorded, difference))}`);
+  console.log(`  replayed: ${describe(getAt(replayed, difference))}`);
+  return false;
+};
+
+async function main() {
+  const [file, ...options] = process.argv.slice(2);
+  if (!file) {
+    console.log('Usage: npm run replay -- <recording.json> [--out <replayed.json>]');
+    process.exit(2);
+  }
+  const outIndex = options.indexOf('--out');
+  const outPath = outIndex === -1 ? undefined : options[outIndex + 1];
+
+  const recording = JSON.parse(fs.readFileSync(file, 'utf8')) as Recording;
+  if (recording.cacheHit) {
+    console.log('- Skipped: the recording was answered from the response cache');
+    return;
+  }
+  const logger = pino({ level: process.env.LOG_LEVEL ?? 'silent' }, pino.destination(2));
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-'));
+  const modelsPath = path.join(dir, 'models.json');
+  fs.writeFileSync(modelsPath, JSON.stringify(makeReplayCatalog(recording)), 'utf8');
+
+  const config = Config.parse({
+    apiKey: 'replay',
+    promptsPath: process.env.PROMPTS_PATH,
+    locale: process.env.LOCALE || undefined,
+    timeZone: process.env.TZ || undefined,
+    recordRedact: process.env.RECORD_REDACT || undefined,
+  });
+  // The recording was redacted when it was saved, so the replay must be too to compare
+  const recorder = makeRecorder(
+    {
+      dir: path.join(dir, 'recordings'),
+      redact: makeRedactor({
+        images: false,
+        patterns: config.recordRedact ? [new RegExp(config.recordRedact, 'g')] : [],
+        secrets: () => [],
+      }),
+    },
+    logger,
+  );
+  const ledger = makeUsageLedger(path.join(dir, 'usage.jsonl'), logger);
+  const app = makeApp({
+    config,
+    middleware: makeMiddleware(logger, config),
+    catalog: makeModelCatalog(modelsPath, logger),
+    ollama: makeOllamaDiscovery({ hosts: [], refreshIntervalSeconds: 60 }, logger),
+    prompts: makePromptLibrary(config.promptsPath ?? DEFAULT_PROMPTS_PATH, logger),
+    ledger,
+    limiter: makeUsageLimiter({}, logger),
+    cache: makeResponseCache({ maxEntries: 0, maxBytes: 0 }),
+    summaries: makeLruCache<string>({ maxEntries: 0, maxBytes: 0 }),
+    metrics: makeMetrics(),
+    openai: new OpenAI({ apiKey: config.apiKey }),
+    mcp: makeMcpManager(path.join(dir, 'mcp.json'), logger),
+    recorder,
+    upstreamOverride: makeReplayProvider(recording.upstream),
+  });
+
+  // Only the loopback interface is used; nothing reaches the network
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}${recording.path}`, {
+      method: recording.method,
+      headers: { ...recording.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(recording.request),
+    });
+    await response.arrayBuffer();
+    await recorder.flush();
+
+    const requestId = response.headers.get('X-Request-Id');
+    const replayed = JSON.parse(
+      fs.readFileSync(path.join(dir, 'recordings', `${requestId}.json`), 'utf8'),
+    ) as Recording;
+    if (outPath) {
+      fs.writeFileSync(outPath, JSON.stringify(replayed, null, 2), 'utf8');
+    }
+
+    const results = [
+      report('Status', recording.status, replayed.status),
+      report('Upstream request count', recording.upstream.length, replayed.upstream.length),
+      ...recording.upstream.map((exchange, index) =>
+        report(`Upstream request ${index + 1}`, exchange.params, replayed.upstream[index]?.params),
+      ),
+      report('Output', recording.output, replayed.output),
+      ...(recording.error || replayed.error
+        ? [report('Error', recording.error, replayed.error)]
+        : []),
+    ];
+    process.exitCode = results.every(Boolean) ? 0 : 1;
+  } finally {
+    server.close();
+    server.closeAllConnections();
+    await ledger.flush();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.log(error);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+import { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources';
+import { estimateTokens, getMessageText } from './context';
+import { findModelConfig, ModelConfig, RouterModel, RouterRule } from './data/models';
+import { patternToRegExp } from './patterns';
+
+/** What the rules look at, in the form the request is sent upstream */
+export interface RouteInput {
+  messages: ChatCompletionMessageParam[];
+  tools?: ChatCompletionTool[];
+}
+
+export interface Route {
+  model: string;
+  /** Index of the rule that matched, or undefined for the default */
+  rule?: number;
+}
+
+const hasImages = (messages: ChatCompletionMessageParam[]) =>
+  messages.some(
+    (msg) => Array.isArray(msg.content) && msg.content.some((part) => part.type === 'image_url'),
+  );
+
+const getPromptText = (messages: ChatCompletionMessageParam[]): string => {
+  const system = messages.filter((msg) => msg.role === 'system' || msg.role === 'developer');
+  const lastUser = [...messages].reverse().find((msg) => msg.role === 'user');
+  return [...system, ...(lastUser ? [lastUser] : [])].map(getMessageText).join('\n\n');
+};
+
+const matchesRule = (
+  rule: RouterRule,
+  { messages, tools }: RouteInput,
+  promptTokens: () => number,
+): boolean => {
+  if (rule.hasImages !== undefined && rule.hasImages !== hasImages(messages)) return false;
+  if (rule.hasTools !== undefined && rule.hasTools !== (tools?.length ?? 0) > 0) return false;
+  if (rule.minPromptTokens !== undefined && promptTokens() < rule.minPromptTokens) return false;
+  if (rule.maxPromptTokens !== undefined && promptTokens() > rule.maxPromptTokens) return false;
+  if (rule.promptMatches && !patternToRegExp(rule.promptMatches).test(getPromptText(messages))) {
+    return false;
+  }
+  return true;
+};
+
+/** Picks the model for a request: the first rule whose conditions all hold, or the default */
+export const selectRoute = ({ router }: RouterModel, input: RouteInput): Route => {
+  let tokens: number | undefined = undefined;
+  const promptTokens = () => (tokens ??= estimateTokens(input.messages, input.tools));
+
+  const rule = router.rules.findIndex((rule) => matchesRule(rule, input, promptTokens));
+  return rule === -1 ? { model: router.default } : { model: router.rules[rule].model, rule };
+};
+
+/**
+ * Describes a router as a model for the model list. It offers what any of its models
+ * offers, since a request that needs a capability can be routed to a model that has it.
+ * Targets that do not exist are left out; the catalog logs them when it is read.
+ */
+export const makeRouterModelConfig = (
+  { name, router }: RouterModel,
+  models: ModelConfig[],
+): ModelConfig => {
+  const targets = [router.default, ...router.rules.map((rule) => rule.model)].flatMap(
+    (target) => findModelConfig(models, target) ?? [],
+  );
+
+  return {
+    name,
+    id: name,
+    type: 'chat',
+    contextLength: Math.max(0, ...targets.map((config) => config.contextLength)),
+    capabilities: [...new Set(targets.flatMap((config) => config.capabilities))],
+  };
+};
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { makeAdminController } from '../controllers/admin';
+import { AppContext } from '../app';
+
+export const makeAdminRoutes = (ctx: AppContext): Router => {
+  const router = Router();
+  const controller = makeAdminController(ctx);
+
+  router.use(ctx.middleware.adminAuth);
+
+  router.get('/models', controller.listModels);
+  router.post('/models', controller.addModel);
+  router.patch('/models/:name', controller.updateModel);
+  router.delete('/models/:name', controller.deleteModel);
+  router.post('/models/reload', controller.reloadModels);
+  router.get('/usage', controller.getUsage);
+
+  return router;
+};
@@ -9,6 +9,10 @@ export const makeApiRoutes = (ctx: AppContext): Router => {
   router.get('/tags', controller.getTags);
   router.post('/show', controller.getModelInfo);
   router.post('/chat', controller.chatCompletion);
+  router.post('/generate', controller.generate);
+  router.post('/embed', controller.embed);
+  router.post('/embeddings', controller.embeddings);
+  router.get('/usage', controller.getUsage);
 
   return router;
 };
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { AppContext } from '../app';
+
+export const makeMetricsRoutes = (ctx: AppContext): Router => {
+  const router = Router();
+
+  // Prometheus text exposition format
+  router.get('/', (_req, res) => {
+    res.type('text/plain; version=0.0.4').send(ctx.metrics.render());
+  });
+
+  return router;
+};
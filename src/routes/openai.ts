@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { makeOpenAIController } from '../controllers/openai';
+import { AppContext } from '../app';
+
+export const makeOpenAIRoutes = (ctx: AppContext): Router => {
+  const router = Router();
+  const controller = makeOpenAIController(ctx);
+
+  router.get('/models', controller.listModels);
+  router.post('/chat/completions', controller.chatCompletion);
+
+  return router;
+};
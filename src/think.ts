@@ -0,0 +1,115 @@
+import { match } from 'ts-pattern';
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+/**
+ * - `auto`: reasoning is recognized when the response starts with `<think>`
+ * - `implicit`: the response starts inside the reasoning, for chat templates that put the
+ *   opening tag in the prompt, so only `</think>` appears in the output
+ * - `off`: content is passed through untouched
+ */
+export type ThinkTagMode = 'auto' | 'implicit' | 'off';
+
+export interface ThinkTagPart {
+  type: 'reasoning' | 'content';
+  text: string;
+}
+
+export interface ThinkTagParser {
+  push(text: string): ThinkTagPart[];
+  /** Returns whatever is still held back once the stream has ended */
+  flush(): ThinkTagPart[];
+}
+
+// Length of the longest end of `text` that could be the start of `tag`
+const partialTagLength = (text: string, tag: string): number => {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (tag.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+};
+
+/**
+ * Splits streamed content into reasoning and content parts at `<think>` tags. Tags may be
+ * split across any number of chunks; text that could be the start of a tag is held back
+ * until the next chunk shows whether it is one.
+ */
+export const makeThinkTagParser = (mode: ThinkTagMode): ThinkTagParser => {
+  let state: 'start' | 'reasoning' | 'afterReasoning' | 'content' = match(mode)
+    .with('auto', () => 'start' as const)
+    .with('implicit', () => 'reasoning' as const)
+    .with('off', () => 'content' as const)
+    .exhaustive();
+  let buffer = '';
+  // Reasoning usually starts on a new line after the tag
+  let reasoningStarted = false;
+
+  const push = (text: string): ThinkTagPart[] => {
+    buffer += text;
+    const parts: ThinkTagPart[] = [];
+    const emit = (type: ThinkTagPart['type'], text: string) => {
+      if (text) parts.push({ type, text });
+    };
+
+    for (;;) {
+      const progressed = match(state)
+        .with('start', () => {
+          const trimmed = buffer.trimStart();
+          if (trimmed.startsWith(OPEN_TAG)) {
+            buffer = trimmed.slice(OPEN_TAG.length);
+            state = 'reasoning';
+            return true;
+          }
+          // Wait until there is enough text to tell
+          if (OPEN_TAG.startsWith(trimmed)) return false;
+          state = 'content';
+          return true;
+        })
+        .with('reasoning', () => {
+          if (!reasoningStarted) {
+            buffer = buffer.trimStart();
+            if (!buffer) return false;
+            reasoningStarted = true;
+          }
+          const end = buffer.indexOf(CLOSE_TAG);
+          if (end !== -1) {
+            emit('reasoning', buffer.slice(0, end));
+            buffer = buffer.slice(end + CLOSE_TAG.length);
+            state = 'afterReasoning';
+            return true;
+          }
+          const held = partialTagLength(buffer, CLOSE_TAG);
+          emit('reasoning', buffer.slice(0, buffer.length - held));
+          buffer = buffer.slice(buffer.length - held);
+          return false;
+        })
+        .with('afterReasoning', () => {
+          // Models separate the answer from their reasoning with blank lines
+          buffer = buffer.trimStart();
+          if (!buffer) return false;
+          state = 'content';
+          return true;
+        })
+        .with('content', () => {
+          emit('content', buffer);
+          buffer = '';
+          return false;
+        })
+        .exhaustive();
+
+      if (!progressed) return parts;
+    }
+  };
+
+  return {
+    push,
+
+    flush: () => {
+      const rest = buffer;
+      buffer = '';
+      if (!rest) return [];
+      return [{ type: state === 'reasoning' ? 'reasoning' : 'content', text: rest }];
+    },
+  };
+};
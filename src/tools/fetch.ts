@@ -0,0 +1,184 @@
+import dns from 'dns';
+import net, { LookupFunction } from 'net';
+import { Agent, fetch, Response } from 'undici';
+import { makeBlockList } from '../middleware/auth';
+
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+
+// The model chooses the URL, so it must not reach the proxy itself, the cloud metadata
+// service or anything else on the local network. IPv4-mapped IPv6 addresses are checked
+// against the IPv4 networks by the block list itself. NAT64 can reach any IPv4 address,
+// so it is refused as a whole.
+const PRIVATE_NETWORKS = makeBlockList([
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.168.0.0/16',
+  '224.0.0.0/3',
+  '::/128',
+  '::1/128',
+  '64:ff9b::/96',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+]);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Reduces an HTML document to its readable text. Scripts, styles and page chrome such as
+ * navigation and footers are dropped, and block elements become line breaks.
+ */
+export const extractText = (html: string): { title?: string; text: string } => {
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+
+  const text = body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|svg|nav|footer|header|aside|form)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+    .replace(/<\/(p|div|section|article|li|tr|h[1-6]|pre|blockquote|table)>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '- ')
+    .replace(/<[^>]+>/g, '')
+    .split('\n')
+    .map((line) => decodeEntities(line).replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+  return { title: title ? decodeEntities(title).trim() : undefined, text };
+};
+
+const readLimited = async (response: Response): Promise<string> => {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    text += decoder.decode(value, { stream: true });
+    if (size >= MAX_BODY_BYTES) {
+      // Release the connection instead of leaving the rest of the body unread
+      await reader.cancel();
+      break;
+    }
+  }
+  return text + decoder.decode();
+};
+
+const isPrivateAddress = (address: string, family: number) =>
+  PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+
+// The check runs on the addresses the connection is made to, so a host cannot resolve
+// to a public address for the check and to a private one for the connection
+const lookupPublic: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.some(({ address, family }) => isPrivateAddress(address, family))) {
+      callback(new Error(`${hostname} resolves to a private address and cannot be fetched`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const dispatcher = new Agent({ connect: { lookup: lookupPublic } });
+
+/** IP addresses in the URL are connected to without a lookup, so they are checked here */
+const assertPublicAddress = (url: URL) => {
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const family = net.isIP(hostname);
+  if (family !== 0 && isPrivateAddress(hostname, family)) {
+    throw new Error(`${url.host} is a private address and cannot be fetched`);
+  }
+};
+
+// fetch reports connection failures as `fetch failed`, with the reason as the cause
+const unwrapFetchError = (error: unknown): unknown =>
+  error instanceof TypeError && error.cause instanceof Error ? error.cause : error;
+
+const parseHttpUrl = (url: string, base?: URL): URL => {
+  const parsed = new URL(url, base);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Unsupported URL protocol ${parsed.protocol}`);
+  }
+  return parsed;
+};
+
+/**
+ * Downloads a web page and returns its text content. Hosts on private networks are
+ * refused, and redirects are followed one at a time so that every hop is checked.
+ */
+export const fetchPageText = async (
+  url: string,
+  signal: AbortSignal,
+): Promise<{ title?: string; text: string }> => {
+  const fetchSignal = AbortSignal.any([signal, AbortSignal.timeout(FETCH_TIMEOUT_MS)]);
+  let target = parseHttpUrl(url);
+  let response: Response | undefined = undefined;
+
+  for (let redirects = 0; ; redirects++) {
+    assertPublicAddress(target);
+    response = await fetch(target, {
+      signal: fetchSignal,
+      headers: { accept: 'text/html,text/plain;q=0.9,*/*;q=0.5' },
+      redirect: 'manual',
+      dispatcher,
+    }).catch((error: unknown) => {
+      throw unwrapFetchError(error);
+    });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) break;
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`${url} redirected too many times`);
+    }
+    target = parseHttpUrl(location, target);
+  }
+
+  if (!response.ok) {
+    throw new Error(`${target.href} responded with ${response.status} ${response.statusText}`);
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const body = await readLimited(response);
+  if (contentType.includes('html')) {
+    return extractText(body);
+  }
+  if (contentType.startsWith('text/') || contentType.includes('json')) {
+    return { text: body };
+  }
+  throw new Error(`Unsupported content type ${contentType || 'unknown'}`);
+};
@@ -0,0 +1,24 @@
+import { ChatCompletionFunctionTool } from 'openai/resources';
+import { Logger } from 'pino';
+
+export interface ServerToolContext {
+  signal: AbortSignal;
+  log: Logger;
+}
+
+/**
+ * A tool the proxy executes itself instead of handing the call back to Raycast.
+ * The result is sent back to the model as the tool message content.
+ */
+export interface ServerTool {
+  definition: ChatCompletionFunctionTool;
+  execute(args: Record<string, unknown>, ctx: ServerToolContext): Promise<string>;
+}
+
+export const getServerToolName = (tool: ServerTool): string => tool.definition.function.name;
+
+/**
+ * Limits tool output so a single large page or result cannot take over the context window.
+ */
+export const truncateToolOutput = (text: string, maxLength: number): string =>
+  text.length > maxLength ? `${text.slice(0, maxLength)}\n\n[Truncated]` : text;
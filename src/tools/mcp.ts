@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Logger } from 'pino';
+import { z } from 'zod/v4';
+import { ServerTool, truncateToolOutput } from './index';
+
+export const DEFAULT_MCP_PATH = path.resolve(__dirname, '../../mcp.json');
+
+const MAX_RESULT_LENGTH = 50000;
+
+const McpStdioServer = z.object({
+  command: z.string(),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string(), z.string()).optional(),
+  cwd: z.string().optional(),
+});
+
+const McpHttpServer = z.object({
+  url: z.url(),
+  headers: z.record(z.string(), z.string()).optional(),
+});
+
+export const McpServerConfig = z.union([McpStdioServer, McpHttpServer]);
+export type McpServerConfig = z.infer<typeof McpServerConfig>;
+
+/** Same layout as the `mcpServers` section used by most MCP clients */
+export const McpConfig = z.object({
+  mcpServers: z.record(z.string(), McpServerConfig).default({}),
+});
+export type McpConfig = z.infer<typeof McpConfig>;
+
+export interface McpManager {
+  /** Tools of the given servers. Servers that cannot be reached are skipped. */
+  getTools(serverNames: string[], logger: Logger): Promise<ServerTool[]>;
+}
+
+interface McpConnection {
+  client: Client;
+  tools: ServerTool[];
+}
+
+// Tool names must match ^[a-zA-Z0-9_-]{1,64}$ for OpenAI-compatible providers
+const makeToolName = (server: string, tool: string) =>
+  `${server}__${tool}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+
+type CallToolContent = { type: string; text?: string; mimeType?: string; uri?: string };
+
+const formatToolResult = (content: CallToolContent[], isError: boolean): string => {
+  const text = content
+    .map((item) => {
+      if (item.type === 'text') return item.text ?? '';
+      if (item.type === 'resource' || item.type === 'resource_link') {
+        return `[Resource${item.uri ? ` ${item.uri}` : ''}]`;
+      }
+      // Images and audio cannot be sent back as a tool result
+      return `[${item.type}${item.mimeType ? ` ${item.mimeType}` : ''} omitted]`;
+    })
+    .join('\n');
+  return truncateToolOutput(isError ? `Error: ${text}` : text, MAX_RESULT_LENGTH);
+};
+
+const loadMcpConfig = (filePath: string, logger: Logger): McpConfig => {
+  if (!fs.existsSync(filePath)) {
+    return McpConfig.parse({});
+  }
+  try {
+    return McpConfig.parse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  } catch (error) {
+    logger.error({ err: error, filePath }, 'McpConfigInvalid');
+    return McpConfig.parse({});
+  }
+};
+
+/**
+ * Connects to the MCP servers defined in `filePath` on first use and keeps the
+ * connections open. A server whose connection fails or closes is reconnected on the
+ * next request that needs it.
+ */
+export const makeMcpManager = (filePath: string, logger: Logger): McpManager => {
+  const log = logger.child({ category: 'McpManager' });
+  const { mcpServers } = loadMcpConfig(filePath, log);
+  const connections = new Map<string, Promise<McpConnection>>();
+
+  log.info({ servers: Object.keys(mcpServers) }, 'McpConfigLoaded');
+
+  const connect = async (name: string, config: McpServerConfig): Promise<McpConnection> => {
+    const transport =
+      'command' in config
+        ? new StdioClientTransport({
+            command: config.command,
+            args: config.args,
+            env: { ...getDefaultEnvironment(), ...config.env },
+            cwd: config.cwd,
+            stderr: 'ignore',
+          })
+        : new StreamableHTTPClientTransport(new URL(config.url), {
+            requestInit: { headers: config.headers },
+          });
+
+    const client = new Client({ name: 'raycast-ai-openrouter-proxy', version: '1.0.0' });
+    client.onclose = () => {
+      log.warn({ server: name }, 'McpServerDisconnected');
+      connections.delete(name);
+    };
+    let tools: Awaited<ReturnType<Client['listTools']>>['tools'];
+    try {
+      await client.connect(transport);
+      ({ tools } = await client.listTools());
+    } catch (error) {
+      // Ends a stdio server that started but failed, so a retry does not leave it running
+      client.onclose = undefined;
+      await client.close().catch(() => undefined);
+      throw error;
+    }
+    log.info({ server: name, tools: tools.map((tool) => tool.name) }, 'McpServerConnected');
+
+    return {
+      client,
+      tools: tools.map((tool): ServerTool => ({
+        definition: {
+          type: 'function',
+          function: {
+            name: makeToolName(name, tool.name),
+            description: tool.description ?? tool.title ?? tool.name,
+            parameters: tool.inputSchema,
+          },
+        },
+
+        execute: async (args, { signal }) => {
+          const result = await client.callTool({ name: tool.name, arguments: args }, undefined, {
+            signal,
+          });
+          if ('toolResult' in result) {
+            return JSON.stringify(result.toolResult);
+          }
+          const content = result.content as CallToolContent[];
+          const structured = content.length === 0 ? result.structuredContent : undefined;
+          return structured
+            ? JSON.stringify(structured)
+            : formatToolResult(content, result.isError === true);
+        },
+      })),
+    };
+  };
+
+  const getConnection = (name: string, config: McpServerConfig) => {
+    let connection = connections.get(name);
+    if (!connection) {
+      connection = connect(name, config);
+      connections.set(name, connection);
+      // Let the next request try again instead of caching the failure
+      connection.catch(() => connections.delete(name));
+    }
+    return connection;
+  };
+
+  return {
+    getTools: async (serverNames, logger) => {
+      const tools = await Promise.all(
+        serverNames.map(async (name) => {
+          const config = mcpServers[name];
+          if (!config) {
+            logger.warn({ server: name }, 'McpServerNotFound');
+            return [];
+          }
+          try {
+            return (await getConnection(name, config)).tools;
+          } catch (error) {
+            logger.warn({ server: name, err: error }, 'McpServerUnavailable');
+            return [];
+          }
+        }),
+      );
+      return tools.flat();
+    },
+  };
+};
@@ -0,0 +1,120 @@
+import { Logger } from 'pino';
+import { z } from 'zod/v4';
+import { fetchPageText } from './fetch';
+import { ServerTool, truncateToolOutput } from './index';
+import { SearchBackend } from './search';
+
+const MAX_SEARCH_RESULTS = 8;
+const MAX_PAGE_LENGTH = 20000;
+
+const WebSearchArgs = z.object({
+  query: z.string().min(1),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_RESULTS).optional(),
+});
+
+const FetchUrlArgs = z.object({
+  url: z.url({ protocol: /^https?$/ }),
+});
+
+export const makeWebSearchTool = (backend: SearchBackend): ServerTool => ({
+  definition: {
+    type: 'function',
+    function: {
+      name: 'web_search',
+      description:
+        'Search the web for up-to-date information. Returns the title, URL and a snippet ' +
+        'of each result. Use fetch_url to read a result in full.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'The search query' },
+          limit: {
+            type: 'integer',
+            description: `Number of results to return, at most ${MAX_SEARCH_RESULTS}`,
+          },
+        },
+        required: ['query'],
+      },
+    },
+  },
+
+  execute: async (args, { signal }) => {
+    const { query, limit } = WebSearchArgs.parse(args);
+    const results = await backend.search(query, { limit: limit ?? MAX_SEARCH_RESULTS, signal });
+    if (results.length === 0) {
+      return `No results found for "${query}".`;
+    }
+    return results
+      .map(({ title, url, snippet }, index) => `${index + 1}. ${title}\n${url}\n${snippet}`)
+      .join('\n\n');
+  },
+});
+
+export const makeFetchUrlTool = (): ServerTool => ({
+  definition: {
+    type: 'function',
+    function: {
+      name: 'fetch_url',
+      description: 'Fetch a web page and return its readable text content.',
+      parameters: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', description: 'The http or https URL to fetch' },
+        },
+        required: ['url'],
+      },
+    },
+  },
+
+  execute: async (args, { signal }) => {
+    const { url } = FetchUrlArgs.parse(args);
+    const { title, text } = await fetchPageText(url, signal);
+    const page = title ? `# ${title}\n\n${text}` : text;
+    return truncateToolOutput(page, MAX_PAGE_LENGTH);
+  },
+});
+
+export interface RemoteToolOptions {
+  searchBackend?: SearchBackend;
+}
+
+type RemoteToolFactory = (options: RemoteToolOptions) => ServerTool[];
+
+const webTools: RemoteToolFactory = ({ searchBackend }) => [
+  ...(searchBackend ? [makeWebSearchTool(searchBackend)] : []),
+  makeFetchUrlTool(),
+];
+
+// Raycast remote tools that have a server-side substitute, by the name Raycast sends
+const REMOTE_TOOLS: Record<string, RemoteToolFactory> = {
+  web: webTools,
+  web_search: webTools,
+  search_web: webTools,
+  fetch: () => [makeFetchUrlTool()],
+  read_page: () => [makeFetchUrlTool()],
+};
+
+/**
+ * Returns the server tools that stand in for the remote tools Raycast enabled for this
+ * request. Remote tools without a substitute are logged and left out.
+ */
+export const resolveRemoteTools = (
+  names: string[],
+  options: RemoteToolOptions,
+  logger: Logger,
+): ServerTool[] => {
+  const tools = new Map<string, ServerTool>();
+
+  for (const name of names) {
+    const factory = REMOTE_TOOLS[name];
+    if (!factory) {
+      logger.warn({ tool: name }, 'RemoteToolUnsupported');
+      continue;
+    }
+    for (const tool of factory(options)) {
+      tools.set(tool.definition.function.name, tool);
+    }
+  }
+
+  return [...tools.values()];
+};
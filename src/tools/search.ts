@@ -0,0 +1,51 @@
+import { z } from 'zod/v4';
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+/**
+ * Pluggable web search used by the `web_search` server tool.
+ */
+export interface SearchBackend {
+  readonly name: string;
+  search(query: string, options: { limit: number; signal: AbortSignal }): Promise<SearchResult[]>;
+}
+
+const SearxngResponse = z.object({
+  results: z.array(
+    z.object({
+      title: z.string().default(''),
+      url: z.string(),
+      content: z.string().default(''),
+    }),
+  ),
+});
+
+/**
+ * Queries a SearXNG instance through its JSON API. The `json` format must be enabled
+ * in the instance's `settings.yml`.
+ */
+export const makeSearxngBackend = (baseUrl: string): SearchBackend => ({
+  name: 'searxng',
+
+  search: async (query, { limit, signal }) => {
+    const url = new URL('search', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+
+    const response = await fetch(url, { signal, headers: { accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`SearXNG responded with ${response.status} ${response.statusText}`);
+    }
+
+    const { results } = SearxngResponse.parse(await response.json());
+    return results.slice(0, limit).map(({ title, url, content }) => ({
+      title,
+      url,
+      snippet: content,
+    }));
+  },
+});
@@ -0,0 +1,172 @@
+import OpenAI from 'openai';
+import { ChatCompletionChunk, ChatCompletionCreateParamsStreaming } from 'openai/resources';
+import { Logger } from 'pino';
+import { findModelConfig, ModelConfig, RetryPolicy } from './data/models';
+import { ChatProvider, getProviderForModel, ProviderDefaults } from './providers';
+
+export interface UpstreamTarget {
+  /** The model config the request is built from, with fallback overrides applied */
+  config: ModelConfig;
+  provider: ChatProvider;
+}
+
+export interface UpstreamStream {
+  target: UpstreamTarget;
+  stream: AsyncIterable<ChatCompletionChunk>;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = RetryPolicy.parse({});
+
+/**
+ * Expands a model into the ordered list of upstreams to try: the model itself,
+ * followed by its fallbacks. Fallbacks of fallbacks are not followed.
+ */
+export const resolveUpstreamTargets = (
+  modelConfig: ModelConfig,
+  allModels: ModelConfig[],
+  defaults: ProviderDefaults,
+  logger: Logger,
+): UpstreamTarget[] => {
+  const configs: ModelConfig[] = [modelConfig];
+
+  for (const fallback of modelConfig.fallbacks ?? []) {
+    if (typeof fallback === 'string') {
+      const config = findModelConfig(allModels, fallback);
+      if (!config) {
+        logger.warn({ model: modelConfig.name, fallback }, 'FallbackModelNotFound');
+        continue;
+      }
+      configs.push(config);
+    } else {
+      // Only what describes the model carries over; the upstream, its key and its
+      // provider come from the fallback alone, so a key is never sent to another host
+      const { name, contextLength, capabilities } = modelConfig;
+      configs.push({ name, contextLength, capabilities, ...fallback });
+    }
+  }
+
+  return configs.map((config) => ({
+    config,
+    provider: getProviderForModel(config, defaults),
+  }));
+};
+
+export const describeTarget = ({ config, provider }: UpstreamTarget) => ({
+  model: config.name,
+  provider: provider.name,
+  upstream: config.id,
+  ...(config.baseUrl && { baseUrl: config.baseUrl }),
+});
+
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof OpenAI.APIUserAbortError) {
+    return false;
+  }
+  if (error instanceof OpenAI.APIError) {
+    // No status means a connection failure or an error event inside the stream
+    return error.status === undefined || error.status === 429 || error.status >= 500;
+  }
+  return false;
+};
+
+const retryDelay = (error: unknown, attempt: number, policy: RetryPolicy): number => {
+  if (error instanceof OpenAI.APIError && error.headers) {
+    const retryAfter = Number(error.headers.get('retry-after'));
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      return Math.min(retryAfter * 1000, policy.maxDelayMs);
+    }
+  }
+  const backoff = Math.min(policy.initialDelayMs * 2 ** attempt, policy.maxDelayMs);
+  // Full jitter keeps concurrent requests from retrying in lockstep
+  return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new OpenAI.APIUserAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OpenAI.APIUserAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+async function* resumeStream<T>(
+  first: IteratorResult<T>,
+  iterator: AsyncIterator<T>,
+): AsyncGenerator<T> {
+  try {
+    if (first.done) return;
+    yield first.value;
+    while (true) {
+      const next = await iterator.next();
+      if (next.done) return;
+      yield next.value;
+    }
+  } finally {
+    await iterator.return?.();
+  }
+}
+
+/**
+ * Opens a streaming completion and waits for its first chunk, so that failures which
+ * happen before anything reaches the client can still be retried.
+ */
+const openStream = async (
+  target: UpstreamTarget,
+  params: ChatCompletionCreateParamsStreaming,
+  signal: AbortSignal,
+): Promise<AsyncIterable<ChatCompletionChunk>> => {
+  const stream = await target.provider.streamChat(params, { signal });
+  const iterator = stream[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  return resumeStream(first, iterator);
+};
+
+/**
+ * Tries each target in order, retrying retryable failures with exponential backoff
+ * according to the primary model's retry policy. Throws the last error if every target fails.
+ */
+export const openChatStreamWithFallback = async (
+  targets: UpstreamTarget[],
+  buildParams: (config: ModelConfig) => ChatCompletionCreateParamsStreaming,
+  signal: AbortSignal,
+  logger: Logger,
+): Promise<UpstreamStream> => {
+  const policy = targets[0]?.config.retry ?? DEFAULT_RETRY_POLICY;
+  let lastError: unknown = new Error('No upstream targets');
+
+  for (const [index, target] of targets.entries()) {
+    for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+      try {
+        const stream = await openStream(target, buildParams(target.config), signal);
+        logger.info(
+          { ...describeTarget(target), attempt, fallback: index > 0 },
+          'UpstreamSelected',
+        );
+        return { target, stream };
+      } catch (error) {
+        if (signal.aborted || error instanceof OpenAI.APIUserAbortError) {
+          throw error;
+        }
+        lastError = error;
+        const retryable = isRetryable(error) && attempt < policy.maxRetries;
+        logger.warn(
+          { ...describeTarget(target), attempt, retryable, err: error },
+          'UpstreamAttemptFailed',
+        );
+        if (!retryable) break;
+        await sleep(retryDelay(error, attempt, policy), signal);
+      }
+    }
+  }
+
+  throw lastError;
+};
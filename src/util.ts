@@ -1,10 +1,13 @@
-import { randomBytes } from 'node:crypto';
+import { createHash } from 'node:crypto';
 import {
   ChatCompletionChunk,
   ChatCompletionMessageParam,
   ChatCompletionTool,
+  CompletionUsage,
 } from 'openai/resources';
+import { match } from 'ts-pattern';
 import { z } from 'zod/v4';
+import { parseToolArguments } from './json';
 
 const RaycastRequestTool = z.discriminatedUnion('type', [
   z.object({
@@ -35,6 +38,8 @@ export const OllamaChatMessage = z.object({
   role: z.enum(['user', 'assistant', 'system', 'tool']),
   images: z.array(z.string()).optional(),
   content: z.string(),
+  /** Name of the tool that produced a `tool` message */
+  tool_name: z.string().optional(),
   tool_calls: z
     .array(
       z.record(
@@ -55,6 +60,152 @@ export const OllamaChatRequest = z.object({
   tools: z.array(RaycastRequestTool).default([]),
 });
 
+export const OllamaGenerateRequest = z.object({
+  model: z.string(),
+  prompt: z.string().default(''),
+  suffix: z.string().optional(),
+  system: z.string().optional(),
+  images: z.array(z.string()).optional(),
+  context: z.array(z.int().min(0).max(255)).optional(),
+  raw: z.boolean().default(false),
+  stream: z.boolean().default(true),
+});
+export type OllamaGenerateRequest = z.infer<typeof OllamaGenerateRequest>;
+
+export const OllamaEmbedRequest = z.object({
+  model: z.string(),
+  input: z.union([z.string(), z.array(z.string())]),
+  dimensions: z.int().min(1).optional(),
+});
+export type OllamaEmbedRequest = z.infer<typeof OllamaEmbedRequest>;
+
+/** The legacy single-prompt embeddings request */
+export const OllamaEmbeddingsRequest = z.object({
+  model: z.string(),
+  prompt: z.string(),
+});
+
+const OpenAITextPart = z.looseObject({ type: z.literal('text'), text: z.string() });
+const OpenAITextContent = z.union([z.string(), z.array(OpenAITextPart)]);
+
+const OpenAIUserContentPart = z.discriminatedUnion('type', [
+  OpenAITextPart,
+  z.looseObject({
+    type: z.literal('image_url'),
+    image_url: z.looseObject({
+      url: z.string(),
+      detail: z.enum(['auto', 'low', 'high']).optional(),
+    }),
+  }),
+  z.looseObject({
+    type: z.literal('input_audio'),
+    input_audio: z.object({ data: z.string(), format: z.enum(['wav', 'mp3']) }),
+  }),
+  z.looseObject({
+    type: z.literal('file'),
+    file: z.object({
+      file_data: z.string().optional(),
+      file_id: z.string().optional(),
+      filename: z.string().optional(),
+    }),
+  }),
+]);
+
+const OpenAIToolCall = z.discriminatedUnion('type', [
+  z.looseObject({
+    id: z.string(),
+    type: z.literal('function'),
+    function: z.object({ name: z.string(), arguments: z.string() }),
+  }),
+  z.looseObject({
+    id: z.string(),
+    type: z.literal('custom'),
+    custom: z.object({ name: z.string(), input: z.string() }),
+  }),
+]);
+
+const OpenAIChatMessage = z.discriminatedUnion('role', [
+  z.looseObject({
+    role: z.enum(['system', 'developer']),
+    content: OpenAITextContent,
+    name: z.string().optional(),
+  }),
+  z.looseObject({
+    role: z.literal('user'),
+    content: z.union([z.string(), z.array(OpenAIUserContentPart)]),
+    name: z.string().optional(),
+  }),
+  z.looseObject({
+    role: z.literal('assistant'),
+    content: z
+      .union([
+        z.string(),
+        z.array(
+          z.discriminatedUnion('type', [
+            OpenAITextPart,
+            z.looseObject({ type: z.literal('refusal'), refusal: z.string() }),
+          ]),
+        ),
+      ])
+      .nullish(),
+    refusal: z.string().nullish(),
+    tool_calls: z.array(OpenAIToolCall).optional(),
+    name: z.string().optional(),
+  }),
+  z.looseObject({
+    role: z.literal('tool'),
+    content: OpenAITextContent,
+    tool_call_id: z.string(),
+  }),
+  z.looseObject({
+    role: z.literal('function'),
+    content: z.string().nullable(),
+    name: z.string(),
+  }),
+]);
+
+const OpenAIChatTool = z.discriminatedUnion('type', [
+  z.looseObject({
+    type: z.literal('function'),
+    function: z.looseObject({
+      name: z.string(),
+      description: z.string().optional(),
+      parameters: z.record(z.string(), z.unknown()).optional(),
+      strict: z.boolean().nullish(),
+    }),
+  }),
+  z.looseObject({
+    type: z.literal('custom'),
+    custom: z.looseObject({
+      name: z.string(),
+      description: z.string().optional(),
+      format: z
+        .discriminatedUnion('type', [
+          z.object({ type: z.literal('text') }),
+          z.object({
+            type: z.literal('grammar'),
+            grammar: z.object({ definition: z.string(), syntax: z.enum(['lark', 'regex']) }),
+          }),
+        ])
+        .optional(),
+    }),
+  }),
+]);
+
+/**
+ * Request body of the OpenAI-compatible `/v1/chat/completions` endpoint. Messages and tools
+ * are validated against the OpenAI format; other fields are passed on to the upstream.
+ */
+export const OpenAIChatRequest = z.looseObject({
+  model: z.string(),
+  messages: z.array(OpenAIChatMessage).min(1),
+  stream: z.boolean().default(false),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).nullish(),
+  tools: z.array(OpenAIChatTool).optional(),
+  max_tokens: z.int().min(1).nullish(),
+});
+export type OpenAIChatRequest = z.infer<typeof OpenAIChatRequest>;
+
 export interface OllamaChunkResponse {
   model: string;
   created_at: string;
@@ -72,6 +223,18 @@ export interface OllamaChunkResponse {
   done_reason?: 'stop' | 'tool_calls';
 }
 
+export interface OllamaGenerateResponse {
+  model: string;
+  created_at: string;
+  response: string;
+  done: boolean;
+  done_reason?: 'stop' | 'tool_calls' | 'load';
+  context?: number[];
+  total_duration?: number;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
 export function makeOllamaChunk(
   model: string,
   content: string,
@@ -88,18 +251,16 @@ export function makeOllamaChunk(
         continue;
       }
 
-      const args = tc.function.arguments || '{}';
-      try {
-        const parsedArgs = JSON.parse(args);
-        finalToolCalls.push({
-          function: {
-            name: tc.function.name,
-            arguments: parsedArgs,
-          },
-        });
-      } catch {
+      const parsedArgs = parseToolArguments(tc.function.arguments || '{}');
+      if (!parsedArgs) {
         continue;
       }
+      finalToolCalls.push({
+        function: {
+          name: tc.function.name,
+          arguments: parsedArgs,
+        },
+      });
     }
   }
 
@@ -116,54 +277,171 @@ export function makeOllamaChunk(
   };
 }
 
+export function makeOllamaGenerateChunk(
+  model: string,
+  response: string,
+  done: boolean,
+  done_reason?: OllamaGenerateResponse['done_reason'],
+): OllamaGenerateResponse {
+  return {
+    model,
+    created_at: new Date().toISOString(),
+    response,
+    done,
+    done_reason,
+  };
+}
+
+type GenerateContextMessage = { role: 'user' | 'assistant'; content: string };
+
+/**
+ * Ollama returns the conversation as an opaque `context` array of token IDs that the
+ * client sends back to continue it. Without a tokenizer, the text of the conversation
+ * is encoded as UTF-8 bytes instead. Images are left out to keep the context small.
+ */
+export function encodeGenerateContext(
+  messages: ChatCompletionMessageParam[],
+  response: string,
+): number[] {
+  const conversation: GenerateContextMessage[] = messages.flatMap((msg) => {
+    if (msg.role !== 'user' && msg.role !== 'assistant') return [];
+    const content =
+      typeof msg.content === 'string'
+        ? msg.content
+        : (msg.content ?? []).map((part) => ('text' in part ? part.text : '')).join('');
+    return [{ role: msg.role, content }];
+  });
+  conversation.push({ role: 'assistant', content: response });
+  return [...Buffer.from(JSON.stringify(conversation), 'utf8')];
+}
+
+export function decodeGenerateContext(context: number[]): GenerateContextMessage[] {
+  try {
+    const conversation = JSON.parse(Buffer.from(context).toString('utf8'));
+    return z
+      .array(z.object({ role: z.enum(['user', 'assistant']), content: z.string() }))
+      .parse(conversation);
+  } catch {
+    // Context from a real Ollama server or another proxy version; start a new conversation
+    return [];
+  }
+}
+
+const FILL_IN_THE_MIDDLE_PROMPT =
+  'Write the text that belongs between <prefix> and <suffix>. ' +
+  'Reply with only the missing text, without the prefix, the suffix or any explanation.';
+
+/**
+ * Builds chat messages from a prompt-style generate request. `raw` sends the prompt as is,
+ * without the system prompt or previous context.
+ */
+export function convertOllamaGenerateToOpenAI({
+  prompt,
+  suffix,
+  system,
+  images,
+  context,
+  raw,
+}: OllamaGenerateRequest): ChatCompletionMessageParam[] {
+  const messages: ChatCompletionMessageParam[] = [];
+
+  if (!raw) {
+    if (system) {
+      messages.push({ role: 'system', content: system });
+    }
+    if (suffix !== undefined) {
+      messages.push({ role: 'system', content: FILL_IN_THE_MIDDLE_PROMPT });
+    }
+    if (context) {
+      messages.push(...decodeGenerateContext(context));
+    }
+  }
+
+  const content =
+    !raw && suffix !== undefined ? `<prefix>${prompt}</prefix><suffix>${suffix}</suffix>` : prompt;
+
+  messages.push(...convertOllamaMessagesToOpenAI([{ role: 'user', content, images }]));
+  return messages;
+}
+
+/**
+ * Tool call IDs are not part of Ollama's message format, so they are derived from the
+ * position and content of the call. The same history always gets the same IDs, which keeps
+ * upstream prompt caches valid across turns. 9 alphanumeric characters is the strictest
+ * format providers require.
+ */
+export function makeToolCallId(
+  messageIndex: number,
+  callIndex: number,
+  name: string,
+  args: string,
+) {
+  return createHash('sha256')
+    .update(JSON.stringify([messageIndex, callIndex, name, args]))
+    .digest('hex')
+    .slice(0, 9);
+}
+
+const MISSING_TOOL_RESULT = 'The tool call did not return a result.';
+
 export function convertOllamaMessagesToOpenAI(
   messages: OllamaChatMessage[],
 ): ChatCompletionMessageParam[] {
-  // Store all tool call IDs in order
-  const toolCallIds: string[] = [];
+  const result: ChatCompletionMessageParam[] = [];
+  // Calls of the latest assistant message that have no result yet, in order
+  let pending: { id: string; name: string }[] = [];
 
-  const makeToolCallId = (): string => {
-    return randomBytes(5).toString('hex').slice(0, 9);
-  };
-
-  return messages.map((msg): ChatCompletionMessageParam => {
-    // Handle tool calls in assistant messages
-    if (msg.role === 'assistant' && msg.tool_calls) {
-      // Clear previous tool call IDs and generate new ones
-      toolCallIds.length = 0;
-
-      return {
-        role: 'assistant',
-        content: msg.content,
-        tool_calls: msg.tool_calls.map((tc) => {
-          const toolCallId = makeToolCallId();
-          toolCallIds.push(toolCallId); // Store each tool call ID
-          return {
-            id: toolCallId,
-            type: 'function',
-            function: {
-              name: tc.function.name,
-              arguments: JSON.stringify(tc.function.arguments),
-            },
-          };
-        }),
-      };
+  // Every tool call needs a result before the conversation continues, or providers reject it
+  const answerPending = () => {
+    for (const call of pending) {
+      result.push({ role: 'tool', tool_call_id: call.id, content: MISSING_TOOL_RESULT });
     }
+    pending = [];
+  };
 
+  messages.forEach((msg, messageIndex) => {
     // Handle tool responses
     if (msg.role === 'tool') {
-      // Use the next available tool call ID in sequence
-      const toolCallId = toolCallIds.shift() || makeToolCallId();
-      return {
-        role: 'tool',
-        content: msg.content,
-        tool_call_id: toolCallId,
-      };
+      // Pair by tool name when the client sends it, otherwise by order
+      const match = msg.tool_name
+        ? pending.findIndex((call) => call.name === msg.tool_name)
+        : pending.length > 0
+          ? 0
+          : -1;
+
+      if (match === -1) {
+        // A result without a matching call would be rejected, so keep it as plain text
+        result.push({ role: 'user', content: `Tool result:\n${msg.content}` });
+        return;
+      }
+
+      const [call] = pending.splice(match, 1);
+      result.push({ role: 'tool', content: msg.content, tool_call_id: call.id });
+      return;
+    }
+
+    answerPending();
+
+    // Handle tool calls in assistant messages
+    if (msg.role === 'assistant' && msg.tool_calls?.length) {
+      const toolCalls = msg.tool_calls.map((tc, callIndex) => {
+        const args = JSON.stringify(tc.function.arguments);
+        const id = makeToolCallId(messageIndex, callIndex, tc.function.name, args);
+        pending.push({ id, name: tc.function.name });
+        return {
+          id,
+          type: 'function' as const,
+          function: { name: tc.function.name, arguments: args },
+        };
+      });
+
+      result.push({ role: 'assistant', content: msg.content, tool_calls: toolCalls });
+      return;
     }
 
     // Handle images if present
     if (msg.images && msg.images.length > 0 && msg.role === 'user') {
-      return {
+      result.push({
         role: 'user',
         content: [
           { type: 'text', text: msg.content },
@@ -172,15 +450,40 @@ export function convertOllamaMessagesToOpenAI(
             image_url: { url: `data:image/jpeg;base64,${img}` },
           })),
         ],
-      };
+      });
+      return;
     }
 
     // Handle regular messages
-    return {
+    result.push({
       role: msg.role,
       content: msg.content,
-    };
+    });
   });
+
+  answerPending();
+  return result;
+}
+
+/**
+ * Adds a system prompt to the conversation. `prepend` sends it as a separate message in
+ * front; `merge` puts it at the start of the client's first system message, if any.
+ */
+export function applySystemPrompt(
+  messages: ChatCompletionMessageParam[],
+  prompt: string,
+  mode: 'prepend' | 'merge',
+): ChatCompletionMessageParam[] {
+  const index = messages.findIndex((msg) => msg.role === 'system');
+  const existing = messages[index];
+
+  if (mode === 'merge' && existing?.role === 'system' && typeof existing.content === 'string') {
+    return messages.map((msg, i) =>
+      i === index ? { role: 'system', content: `${prompt}\n\n${existing.content}` } : msg,
+    );
+  }
+
+  return [{ role: 'system', content: prompt }, ...messages];
 }
 
 export function convertRaycastToolsToOpenAI(
@@ -200,7 +503,104 @@ export function convertRaycastToolsToOpenAI(
   });
 }
 
-export function makeSSEMessage(message: OllamaChunkResponse): string {
+/**
+ * Remote tools run on Raycast's servers, so they are not sent to the model as is.
+ * Their names are used to pick server-side substitutes instead.
+ */
+export function getRaycastRemoteToolNames(raycastTools?: RaycastRequestTool[]): string[] {
+  return (raycastTools ?? []).flatMap((tool) => (tool.type === 'remote_tool' ? [tool.name] : []));
+}
+
+export type ReasoningDisplay = 'think' | 'hidden' | 'quote' | 'summary';
+
+export interface ReasoningWriter {
+  reasoning(text: string): void;
+  content(text: string): void;
+  /** Closes an open reasoning block, e.g. when the model ends with a tool call */
+  end(): void;
+  /** Called once after the response, with the usage if the upstream reported it */
+  finish(usage?: CompletionUsage): void;
+}
+
+const REASONING_SUMMARY_SENTENCES = 2;
+const REASONING_SUMMARY_MAX_CHARS = 300;
+
+/**
+ * The conclusion of the reasoning: its last sentences, shortened from the front if they
+ * are long. Reasoning usually ends with what the model decided to answer.
+ */
+const summarizeReasoning = (reasoning: string): string => {
+  const sentences = reasoning
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(/(?<=[.!?])\s+/)
+    .filter(Boolean);
+  const summary = sentences.slice(-REASONING_SUMMARY_SENTENCES).join(' ');
+  return summary.length > REASONING_SUMMARY_MAX_CHARS
+    ? `…${summary.slice(-REASONING_SUMMARY_MAX_CHARS).trimStart()}`
+    : summary;
+};
+
+/**
+ * Shapes reasoning for clients that only show plain text: `think` wraps it in `<think>`
+ * tags, `hidden` leaves it out, `quote` puts it in a collapsed `<details>` block, and
+ * `summary` leaves it out but ends the answer with its last sentences and how long the
+ * model thought.
+ */
+export function makeReasoningWriter(
+  display: ReasoningDisplay,
+  write: (text: string) => void,
+): ReasoningWriter {
+  let reasoning = false;
+  let reasoningStartedAt: number | undefined = undefined;
+  let reasoningMs = 0;
+  let reasoningText = '';
+
+  const next = (event: { type: 'reasoning' | 'content' | 'end'; text: string }) => {
+    match({ display, type: event.type, reasoning })
+      .with({ type: 'reasoning', reasoning: false }, () => {
+        reasoning = true;
+        reasoningStartedAt = Date.now();
+        if (display === 'think') write('<think>');
+        if (display === 'quote') write('<details>\n<summary>Thinking</summary>\n\n');
+      })
+      .with({ type: 'content', reasoning: true }, { type: 'end', reasoning: true }, () => {
+        reasoning = false;
+        reasoningMs += Date.now() - (reasoningStartedAt ?? Date.now());
+        if (display === 'think') write('</think>');
+        if (display === 'quote') write('\n\n</details>\n\n');
+      })
+      .otherwise(() => {});
+
+    if (!event.text) return;
+    match({ display, type: event.type })
+      .with({ type: 'content' }, () => write(event.text))
+      .with({ display: 'think' }, { display: 'quote' }, () => write(event.text))
+      .with({ display: 'summary' }, () => {
+        reasoningText += event.text;
+      })
+      .otherwise(() => {});
+  };
+
+  return {
+    reasoning: (text) => next({ type: 'reasoning', text }),
+    content: (text) => next({ type: 'content', text }),
+    end: () => next({ type: 'end', text: '' }),
+
+    finish: (usage) => {
+      next({ type: 'end', text: '' });
+      if (display !== 'summary' || reasoningStartedAt === undefined) return;
+
+      const seconds = Math.max(1, Math.round(reasoningMs / 1000));
+      const tokens = usage?.completion_tokens_details?.reasoning_tokens;
+      const details = tokens ? `, ${tokens.toLocaleString('en-US')} reasoning tokens` : '';
+      const summary = summarizeReasoning(reasoningText);
+      write(`\n\n---\n*Thought for ${seconds} s${details}*${summary ? `: ${summary}` : ''}`);
+    },
+  };
+}
+
+export function makeSSEMessage(message: OllamaChunkResponse | OllamaGenerateResponse): string {
   return `${JSON.stringify(message)}\n\n`;
 }
 
@@ -210,5 +610,4 @@ export {
   generateModelInfo,
   generateModelsList,
   getOpenAIInstanceForModel,
-  fetchLocalOllamaModels,
 } from './data/models';